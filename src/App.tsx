@@ -2,8 +2,10 @@ import React, { useState } from 'react';
 import CodeEditor from './components/CodeEditor';
 import VisualizationPanel from './components/VisualizationPanel';
 import AnalysisControls from './components/AnalysisControls';
+import GrammarEditor from './components/GrammarEditor';
 import { CompilerService } from './services/CompilerService';
-import { CompilationResult } from './types/compiler';
+import { BUILT_IN_GRAMMARS, C_GRAMMAR } from './services/grammars';
+import { CompilationResult, VariableScope } from './types/compiler';
 import { MessageBar } from './components/MessageBar';
 
 function App() {
@@ -12,18 +14,42 @@ function App() {
   const [activeTab, setActiveTab] = useState<string>('parseTree');
   const [isCompiling, setIsCompiling] = useState<boolean>(false);
   const [message, setMessage] = useState<{text: string, type: 'info' | 'error' | 'success'} | null>(null);
+  const [editorMode, setEditorMode] = useState<'source' | 'grammar'>('source');
+  const [grammarName, setGrammarName] = useState<string>(C_GRAMMAR);
+  // BNF text of the selected grammar, or null for the built-in C parser
+  const [grammarSource, setGrammarSource] = useState<string | null>(null);
+  // Step of the parser log being replayed in the Parse Tree tab, or null when not replaying
+  const [replayStep, setReplayStep] = useState<number | null>(null);
+  const replayEvent = replayStep !== null ? compilationResult?.parseLog[replayStep] : undefined;
+  const replayToken = replayEvent ? compilationResult?.tokens[replayEvent.token] : undefined;
+  // Scope under the mouse in the Scope tab, shaded in the editor
+  const [hoveredScope, setHoveredScope] = useState<VariableScope | null>(null);
 
   const handleCodeChange = (newCode: string) => {
     setCode(newCode);
   };
 
+  const handleGrammarSelect = (name: string) => {
+    const grammar = BUILT_IN_GRAMMARS.find(g => g.name === name);
+    if (!grammar) return;
+    setGrammarName(name);
+    setGrammarSource(grammar.source);
+  };
+
+  const handleLoadExample = () => {
+    const grammar = BUILT_IN_GRAMMARS.find(g => g.name === grammarName);
+    if (grammar) setCode(grammar.example);
+  };
+
   const handleCompile = async () => {
     setIsCompiling(true);
     setMessage({ text: 'Compiling...', type: 'info' });
     
     try {
-      const result = await CompilerService.compile(code);
+      const result = await CompilerService.compile(code, grammarSource ?? undefined);
       setCompilationResult(result);
+      setReplayStep(null);
+      setHoveredScope(null);
       
       if (result.errors.length > 0) {
         setMessage({ 
@@ -77,16 +103,48 @@ function App() {
       <div className="flex flex-col md:flex-row flex-1 overflow-hidden">
         {/* Code Editor Panel */}
         <div className="w-full md:w-1/2 border-r border-gray-200 flex flex-col">
-          <div className="bg-gray-100 border-b border-gray-200 p-4">
-            <h2 className="text-lg font-semibold text-gray-800">Source Code</h2>
-            <p className="text-sm text-gray-600">Write your C-like code below</p>
+          <div className="bg-gray-100 border-b border-gray-200 p-4 flex justify-between items-start">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800">
+                {editorMode === 'source' ? 'Source Code' : 'Grammar'}
+              </h2>
+              <p className="text-sm text-gray-600">
+                {editorMode === 'source'
+                  ? `Write your ${grammarSource === null ? 'C-like code' : `input for the ${grammarName} grammar`} below`
+                  : 'Choose or write the grammar the source is parsed with'}
+              </p>
+            </div>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+              {(['source', 'grammar'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setEditorMode(mode)}
+                  className={`px-3 py-1 ${editorMode === mode ? 'bg-blue-600 text-white' : 'bg-white hover:bg-gray-50'}`}
+                >
+                  {mode === 'source' ? 'Source' : 'Grammar'}
+                </button>
+              ))}
+            </div>
           </div>
           <div className="flex-1 overflow-auto">
-            <CodeEditor 
-              code={code} 
-              onChange={handleCodeChange} 
-              errors={compilationResult?.errors || []}
-            />
+            {editorMode === 'source' ? (
+              <CodeEditor 
+                code={code} 
+                onChange={handleCodeChange} 
+                errors={compilationResult?.errors || []}
+                highlight={replayToken}
+                highlightLines={hoveredScope ?? undefined}
+              />
+            ) : (
+              <GrammarEditor
+                grammarName={grammarName}
+                source={grammarSource}
+                onSelect={handleGrammarSelect}
+                onChange={setGrammarSource}
+                onLoadExample={handleLoadExample}
+                errors={compilationResult?.grammar?.errors || []}
+              />
+            )}
           </div>
           <div className="bg-white border-t border-gray-200 p-4">
             <button 
@@ -114,6 +172,9 @@ function App() {
             <VisualizationPanel 
               activeTab={activeTab}
               compilationResult={compilationResult}
+              replayStep={replayStep}
+              onReplayStepChange={setReplayStep}
+              onScopeHover={setHoveredScope}
             />
           </div>
         </div>
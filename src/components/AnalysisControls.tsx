@@ -16,7 +16,10 @@ const AnalysisControls: React.FC<AnalysisControlsProps> = ({
     { id: 'parseTree', label: 'Parse Tree', icon: 'git-branch' },
     { id: 'scope', label: 'Scopes', icon: 'layers' },
     { id: 'controlFlow', label: 'Control Flow', icon: 'arrow-right-circle' },
+    { id: 'dataflow', label: 'Dataflow', icon: 'activity' },
     { id: 'complexity', label: 'Complexity', icon: 'gauge' },
+    { id: 'grammar', label: 'Grammar', icon: 'table' },
+    { id: 'lr', label: 'LR Automaton', icon: 'share-2' },
     { id: 'errors', label: 'Errors', icon: 'alert-triangle' },
   ];
 
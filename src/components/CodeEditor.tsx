@@ -1,15 +1,20 @@
-import React, { useEffect, useRef } from 'react';
-import { CompilerError } from '../types/compiler';
+import React, { useEffect, useRef, useState } from 'react';
+import { CompilerError, Token } from '../types/compiler';
 
 interface CodeEditorProps {
   code: string;
   onChange: (code: string) => void;
   errors: CompilerError[];
+  // Token to mark, such as the one the parser is at while a parse is replayed
+  highlight?: Token;
+  // Lines to shade, such as those of the scope under the mouse
+  highlightLines?: { start: number, end: number };
 }
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ code, onChange, errors }) => {
+const CodeEditor: React.FC<CodeEditorProps> = ({ code, onChange, errors, highlight, highlightLines }) => {
   const editorRef = useRef<HTMLTextAreaElement>(null);
   const lineNumbersRef = useRef<HTMLDivElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
   
   // Update line numbers whenever code changes
   useEffect(() => {
@@ -27,15 +32,31 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, onChange, errors }) => {
     return errors.some(error => error.line === lineNumber);
   };
   
+  // Scroll the highlighted token or the first highlighted line into view when it is off screen
+  const focusLine = highlight?.line ?? highlightLines?.start;
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (focusLine === undefined || !editor) return;
+    
+    const lineHeight = parseFloat(getComputedStyle(editor).lineHeight) || 20;
+    const top = (focusLine - 1) * lineHeight;
+    if (top < editor.scrollTop || top + lineHeight > editor.scrollTop + editor.clientHeight) {
+      editor.scrollTop = top - editor.clientHeight / 2;
+    }
+  }, [focusLine]);
+  
   // Handle textarea scroll to sync line numbers
   const handleScroll = () => {
     if (editorRef.current && lineNumbersRef.current) {
       lineNumbersRef.current.scrollTop = editorRef.current.scrollTop;
     }
+    if (editorRef.current) {
+      setScroll({ top: editorRef.current.scrollTop, left: editorRef.current.scrollLeft });
+    }
   };
   
   return (
-    <div className="relative h-full font-mono text-sm">
+    <div className="relative h-full font-mono text-sm overflow-hidden">
       <div 
         ref={lineNumbersRef}
         className="absolute left-0 top-0 bottom-0 w-12 px-2 py-2 bg-gray-100 text-gray-500 text-right overflow-hidden"
@@ -45,6 +66,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, onChange, errors }) => {
         value={code}
         onChange={(e) => onChange(e.target.value)}
         onScroll={handleScroll}
+        wrap="off"
         className="w-full h-full pl-14 pr-4 py-2 bg-white focus:outline-none resize-none"
         spellCheck="false"
       />
@@ -57,6 +79,29 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, onChange, errors }) => {
           style={{ top: `${(error.line - 1) * 1.5}rem` }} // Adjust based on your line height
         />
       ))}
+      
+      {/* Highlighted lines */}
+      {highlightLines && (
+        <div
+          className="absolute left-12 right-0 bg-blue-200 opacity-40 border-y border-blue-400 pointer-events-none"
+          style={{
+            top: `calc(0.5rem + ${(highlightLines.start - 1) * 1.25}rem - ${scroll.top}px)`,
+            height: `${(highlightLines.end - highlightLines.start + 1) * 1.25}rem`
+          }}
+        />
+      )}
+      
+      {/* Highlighted token; lines do not wrap, so line and column give its place in the text */}
+      {highlight && (
+        <div
+          className="absolute h-5 bg-yellow-300 opacity-50 rounded-sm pointer-events-none"
+          style={{
+            top: `calc(0.5rem + ${(highlight.line - 1) * 1.25}rem - ${scroll.top}px)`,
+            left: `calc(3.5rem + ${highlight.column - 1}ch - ${scroll.left}px)`,
+            width: `${Math.max(highlight.end - highlight.start, 1)}ch`
+          }}
+        />
+      )}
     </div>
   );
 };
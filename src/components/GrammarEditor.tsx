@@ -0,0 +1,71 @@
+import React from 'react';
+import CodeEditor from './CodeEditor';
+import { CompilerError } from '../types/compiler';
+import { BUILT_IN_GRAMMARS } from '../services/grammars';
+
+interface GrammarEditorProps {
+  grammarName: string;
+  source: string | null;
+  onSelect: (name: string) => void;
+  onChange: (source: string) => void;
+  onLoadExample: () => void;
+  errors: CompilerError[];
+}
+
+const GrammarEditor: React.FC<GrammarEditorProps> = ({
+  grammarName,
+  source,
+  onSelect,
+  onChange,
+  onLoadExample,
+  errors
+}) => {
+  const builtIn = BUILT_IN_GRAMMARS.find(grammar => grammar.name === grammarName);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-3 border-b border-gray-200 bg-white text-sm space-y-2">
+        <div className="flex items-center gap-2">
+          <label htmlFor="grammar-select" className="font-medium text-gray-700">Grammar</label>
+          <select
+            id="grammar-select"
+            value={grammarName}
+            onChange={(e) => onSelect(e.target.value)}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            {BUILT_IN_GRAMMARS.map(grammar => (
+              <option key={grammar.name} value={grammar.name}>{grammar.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={onLoadExample}
+            className="px-2 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Replace the source code with input this grammar accepts"
+          >
+            Load Example Input
+          </button>
+        </div>
+        {builtIn && <p className="text-gray-600">{builtIn.description}</p>}
+        {source !== null && (
+          <p className="text-gray-500">
+            Rules are <code>name ::= ...</code> with <code>|</code>, <code>( )</code>, <code>[ ]</code>,{' '}
+            <code>{'{ }'}</code>, <code>*</code>, <code>+</code>, <code>?</code> and <code>ε</code>.
+            Quoted terminals match token text; IDENTIFIER, NUMBER, STRING, CHAR, KEYWORD, OPERATOR and
+            PUNCTUATION match token types.
+          </p>
+        )}
+      </div>
+      <div className="flex-1 overflow-auto">
+        {source === null ? (
+          <div className="h-full flex items-center justify-center p-8 text-center text-gray-500">
+            The C grammar is built into the compiler. Choose another grammar to edit it as BNF.
+          </div>
+        ) : (
+          <CodeEditor code={source} onChange={onChange} errors={errors} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GrammarEditor;
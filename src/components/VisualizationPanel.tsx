@@ -1,20 +1,30 @@
 import React from 'react';
-import { CompilationResult } from '../types/compiler';
+import { CompilationResult, VariableScope } from '../types/compiler';
 import ParseTreeVisualization from './visualizations/ParseTreeVisualization';
 import TokensVisualization from './visualizations/TokensVisualization';
 import ScopeVisualization from './visualizations/ScopeVisualization';
 import ErrorList from './visualizations/ErrorList';
 import ControlFlowVisualization from './visualizations/ControlFlowVisualization';
+import DataflowVisualization from './visualizations/DataflowVisualization';
 import ComplexityVisualization from './visualizations/ComplexityVisualization';
+import GrammarVisualization from './visualizations/GrammarVisualization';
+import LRVisualization from './visualizations/LRVisualization';
 
 interface VisualizationPanelProps {
   activeTab: string;
   compilationResult: CompilationResult | null;
+  // Step of the parse being replayed, or null when the finished tree is shown
+  replayStep: number | null;
+  onReplayStepChange: (step: number | null) => void;
+  onScopeHover: (scope: VariableScope | null) => void;
 }
 
 const VisualizationPanel: React.FC<VisualizationPanelProps> = ({ 
   activeTab, 
-  compilationResult 
+  compilationResult,
+  replayStep,
+  onReplayStepChange,
+  onScopeHover
 }) => {
   if (!compilationResult) {
     return (
@@ -37,25 +47,47 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
   return (
     <div className="h-full">
       {activeTab === 'tokens' && (
-        <TokensVisualization tokens={compilationResult.tokens} />
+        <TokensVisualization
+          tokens={compilationResult.tokens}
+          activeToken={replayStep !== null ? compilationResult.parseLog[replayStep]?.token : undefined}
+        />
       )}
       
       {activeTab === 'parseTree' && (
-        <ParseTreeVisualization parseTree={compilationResult.parseTree} />
+        <ParseTreeVisualization
+          parseTree={compilationResult.parseTree}
+          concreteTree={compilationResult.concreteTree}
+          parseLog={compilationResult.parseLog}
+          tokens={compilationResult.tokens}
+          replayStep={replayStep}
+          onReplayStepChange={onReplayStepChange}
+        />
       )}
       
       {activeTab === 'scope' && (
-        <ScopeVisualization scopes={compilationResult.scopes} />
+        <ScopeVisualization scopes={compilationResult.scopes} onHover={onScopeHover} />
       )}
       
       {activeTab === 'controlFlow' && (
         <ControlFlowVisualization controlFlow={compilationResult.controlFlow} />
       )}
       
+      {activeTab === 'dataflow' && (
+        <DataflowVisualization controlFlow={compilationResult.controlFlow} />
+      )}
+      
       {activeTab === 'complexity' && (
         <ComplexityVisualization complexity={compilationResult.complexity} />
       )}
       
+      {activeTab === 'grammar' && (
+        <GrammarVisualization grammar={compilationResult.grammar} />
+      )}
+      
+      {activeTab === 'lr' && (
+        <LRVisualization lr={compilationResult.lr} />
+      )}
+      
       {activeTab === 'errors' && (
         <ErrorList errors={compilationResult.errors} />
       )}
@@ -1,342 +1,523 @@
-import React, { useEffect, useRef } from 'react';
-import { ControlFlowNode } from '../../types/compiler';
+import React, { useEffect, useRef, useState } from 'react';
+import { BasicBlock, ControlFlowEdge, ControlFlowEdgeKind, ControlFlowGraph } from '../../types/compiler';
 
 interface ControlFlowVisualizationProps {
-  controlFlow: ControlFlowNode | null;
+  controlFlow: ControlFlowGraph[];
 }
 
-const ControlFlowVisualization: React.FC<ControlFlowVisualizationProps> = ({ 
-  controlFlow 
+// Colour of each kind of edge
+const EDGE_COLORS: Record<ControlFlowEdgeKind, string> = {
+  true: '#059669',
+  false: '#dc2626',
+  case: '#d97706',
+  fallthrough: '#666',
+  back: '#3b82f6',
+  exit: '#7c3aed'
+};
+
+// Statements shown in a block before the rest are summarised
+const MAX_STATEMENTS = 6;
+
+type ControlFlowSection = 'graph' | 'dominators' | 'post-dominators' | 'loops';
+
+const SECTIONS: { section: ControlFlowSection, title: string }[] = [
+  { section: 'graph', title: 'Graph' },
+  { section: 'dominators', title: 'Dominator tree' },
+  { section: 'post-dominators', title: 'Post-dominator tree' },
+  { section: 'loops', title: 'Loops' }
+];
+
+// What is drawn: the control flow graph itself, or one of the trees over its blocks
+type DrawnGraph = Pick<ControlFlowGraph, 'entry' | 'exit' | 'blocks' | 'edges'>;
+
+// How a block relates to the selected one: dominated by it, in its dominance frontier, or in the same loop
+type Highlight = 'selected' | 'inside' | 'frontier';
+
+// Helper to turn immediate (post-)dominators into a tree over the blocks, rooted at `root`
+const treeOf = (graph: ControlFlowGraph, parents: Record<string, string | null>, root: string): DrawnGraph => ({
+  entry: root,
+  exit: root,
+  blocks: graph.blocks,
+  edges: graph.blocks
+    .filter(block => parents[block.id] !== null)
+    .map(block => ({ from: parents[block.id]!, to: block.id, kind: 'fallthrough' }))
+});
+
+// Helper to list the blocks below `id` in a tree given by each block's parent
+const descendantsOf = (parents: Record<string, string | null>, id: string): string[] =>
+  Object.keys(parents).filter(other => {
+    for (let runner = parents[other]; runner !== null; runner = parents[runner]) {
+      if (runner === id) return true;
+    }
+    return false;
+  });
+
+// Helper to lay a graph out in layers. Edges that go back to a block already on the current path
+// (loop back edges and backward gotos) are set aside, so the rest form a DAG; each block is then
+// placed one layer below its lowest predecessor, and within a layer near its predecessors.
+const layerGraph = (graph: DrawnGraph) => {
+  const successors = new Map<string, ControlFlowEdge[]>(graph.blocks.map(block => [block.id, []]));
+  graph.edges.forEach(edge => successors.get(edge.from)!.push(edge));
+
+  const retreating = new Set<ControlFlowEdge>();
+  const visited = new Set<string>();
+  const onPath = new Set<string>();
+  const order: string[] = [];
+  const visit = (id: string) => {
+    visited.add(id);
+    onPath.add(id);
+    successors.get(id)!.forEach(edge => {
+      if (onPath.has(edge.to)) {
+        retreating.add(edge);
+      } else if (!visited.has(edge.to)) {
+        visit(edge.to);
+      }
+    });
+    onPath.delete(id);
+    order.push(id);
+  };
+  // Blocks nothing leads to, like code after a return, are laid out from their own roots
+  [graph.entry, ...graph.blocks.map(block => block.id)].forEach(id => {
+    if (!visited.has(id)) visit(id);
+  });
+
+  // Reverse postorder is a topological order of the forward edges
+  const layer = new Map<string, number>();
+  order.reverse().forEach(id => {
+    const own = layer.get(id) ?? 0;
+    layer.set(id, own);
+    successors.get(id)!.forEach(edge => {
+      if (!retreating.has(edge)) layer.set(edge.to, Math.max(layer.get(edge.to) ?? 0, own + 1));
+    });
+  });
+  // The exit goes below everything else, even blocks that never reach it, unless it is the root of a tree
+  if (graph.exit !== graph.entry) {
+    const deepest = Math.max(...graph.blocks.filter(block => block.id !== graph.exit).map(block => layer.get(block.id)!));
+    layer.set(graph.exit, Math.max(layer.get(graph.exit)!, deepest + 1));
+  }
+
+  const layers: string[][] = [];
+  order.forEach(id => (layers[layer.get(id)!] ??= []).push(id));
+
+  // One downward pass ordering each layer by the average position of its predecessors
+  const position = new Map<string, number>();
+  layers.forEach(ids => {
+    const weight = (id: string) => {
+      const from = graph.edges.filter(edge => edge.to === id && !retreating.has(edge) && position.has(edge.from));
+      if (from.length === 0) return id === graph.entry ? -Infinity : Infinity;
+      return from.reduce((sum, edge) => sum + position.get(edge.from)!, 0) / from.length;
+    };
+    ids.sort((a, b) => weight(a) - weight(b));
+    ids.forEach((id, i) => position.set(id, i - (ids.length - 1) / 2));
+  });
+
+  return { layers: layers.filter(ids => ids !== undefined), retreating };
+};
+
+// Helper to describe a block for its tooltip
+const describeBlock = (block: BasicBlock): string => {
+  const lines = [...block.statements, ...(block.condition ? [block.condition] : [])]
+    .map(statement => statement.node.span.start.line);
+  if (lines.length === 0) return block.id;
+  const first = Math.min(...lines);
+  const last = Math.max(...lines);
+  return `${block.id}: ${first === last ? `line ${first}` : `lines ${first}-${last}`}`;
+};
+
+const ControlFlowVisualization: React.FC<ControlFlowVisualizationProps> = ({
+  controlFlow
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
-  
+  const [functionName, setFunctionName] = useState<string | null>(null);
+  const [section, setSection] = useState<ControlFlowSection>('graph');
+  const [selectedBlock, setSelectedBlock] = useState<string | null>(null);
+  const graph = controlFlow.find(candidate => candidate.functionName === functionName)
+    ?? controlFlow.find(candidate => candidate.functionName === 'main')
+    ?? controlFlow[0];
+  const dominance = graph?.dominance;
+  const selected = graph?.blocks.some(block => block.id === selectedBlock) ? selectedBlock : null;
+
+  // Innermost loop around the selected block
+  const selectedLoop = selected === null ? undefined : dominance!.loops
+    .filter(loop => loop.blocks.includes(selected))
+    .sort((a, b) => b.depth - a.depth)[0];
+
   useEffect(() => {
-    if (!controlFlow || !svgRef.current) return;
-    renderControlFlow(controlFlow);
-  }, [controlFlow]);
-  
-  const renderControlFlow = (rootNode: ControlFlowNode) => {
+    if (!graph || !svgRef.current) return;
+
+    const drawn = section === 'dominators'
+      ? treeOf(graph, graph.dominance.idom, graph.entry)
+      : section === 'post-dominators'
+        ? treeOf(graph, graph.dominance.postIdom, graph.exit)
+        : graph;
+
+    // Mark what the selected block dominates (or post-dominates) and where its dominance ends,
+    // or in the loops view the loop it is in
+    const highlight = new Map<string, Highlight>();
+    if (selected !== null) {
+      if (section === 'loops') {
+        selectedLoop?.blocks.forEach(id => highlight.set(id, 'inside'));
+      } else if (section === 'post-dominators') {
+        descendantsOf(graph.dominance.postIdom, selected).forEach(id => highlight.set(id, 'inside'));
+      } else {
+        graph.dominance.frontier[selected].forEach(id => highlight.set(id, 'frontier'));
+        descendantsOf(graph.dominance.idom, selected).forEach(id => highlight.set(id, 'inside'));
+      }
+      highlight.set(selected, 'selected');
+    }
+
+    renderControlFlow(graph, drawn, highlight, section === 'loops');
+  }, [graph, section, selected, selectedLoop]);
+
+  const renderControlFlow = (
+    cfg: ControlFlowGraph,
+    drawn: DrawnGraph,
+    highlight: Map<string, Highlight>,
+    showLoopDepth: boolean
+  ) => {
     if (!svgRef.current) return;
-    
+
     const svg = svgRef.current;
     svg.innerHTML = '';
-    
-    // Define dimensions - Increased sizes
-    const NODE_WIDTH = 220;  // Increased from 180
-    const NODE_HEIGHT = 100; // Increased from 80
-    const LEVEL_GAP = 120;   // Increased from 100
-    const HORIZONTAL_GAP = 80; // Increased from 60
-    
+
+    const NODE_WIDTH = 220;
+    const LINE_HEIGHT = 18;
+    const LEVEL_GAP = 70;
+    const HORIZONTAL_GAP = 60;
+    const ENTRY_HEIGHT = 44;
+
+    // Trees only name their blocks
+    const isTree = drawn !== cfg;
+    const blocks = new Map(cfg.blocks.map(block => [block.id, block]));
+    const loopHeaders = new Set(cfg.dominance.loops.map(loop => loop.header));
+    const shownStatements = (block: BasicBlock) => Math.min(block.statements.length, MAX_STATEMENTS + 1);
+    const blockHeight = (block: BasicBlock) => block.kind !== 'block'
+      ? ENTRY_HEIGHT
+      : isTree
+        ? ENTRY_HEIGHT
+        : 30 + LINE_HEIGHT * Math.max(
+          shownStatements(block) + (block.condition ? 1 : 0) + (showLoopDepth && cfg.dominance.loopDepth[block.id] > 0 ? 1 : 0),
+          1
+        );
+
     // Create main group
     const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-    g.setAttribute('transform', 'translate(50, 50)');
     svg.appendChild(g);
-    
-    // Add definitions for markers
+
+    // Add definitions for markers, one per edge colour
     const defs = document.createElementNS('http://www.w3.org/2000/svg', 'defs');
+    defs.innerHTML = Object.entries(EDGE_COLORS).map(([kind, color]) =>
+      `<marker id="cfg-arrow-${kind}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">` +
+      `<path d="M 0 0 L 10 5 L 0 10 z" fill="${color}" /></marker>`
+    ).join('');
     svg.appendChild(defs);
-    
-    const marker = document.createElementNS('http://www.w3.org/2000/svg', 'marker');
-    marker.setAttribute('id', 'arrowhead');
-    marker.setAttribute('viewBox', '0 0 10 10');
-    marker.setAttribute('refX', '9');
-    marker.setAttribute('refY', '5');
-    marker.setAttribute('markerWidth', '6');
-    marker.setAttribute('markerHeight', '6');
-    marker.setAttribute('orient', 'auto');
-    defs.appendChild(marker);
-    
-    const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
-    path.setAttribute('d', 'M 0 0 L 10 5 L 0 10 z');
-    path.setAttribute('fill', '#666');
-    marker.appendChild(path);
-    
-    // Layout algorithm
-    const nodes: any[] = [];
-    const links: any[] = [];
-    
-    // Helper function to calculate the width needed for a subtree
-    const calculateSubtreeWidth = (node: ControlFlowNode): number => {
-      if (!node.children || node.children.length === 0) {
-        return NODE_WIDTH;
-      }
-      
-      return node.children.reduce((total, child, index) => {
-        const childWidth = calculateSubtreeWidth(child);
-        return total + childWidth + (index > 0 ? HORIZONTAL_GAP : 0);
-      }, 0);
-    };
-    
-    // Helper function to layout the nodes
-    const layoutNodes = (
-      node: ControlFlowNode, 
-      x: number, 
-      y: number, 
-      level: number
-    ): { width: number } => {
-      // Add the current node
-      nodes.push({
-        id: node.id,
-        type: node.type,
-        condition: node.condition,
-        x,
-        y,
-        width: NODE_WIDTH,
-        height: NODE_HEIGHT,
-      });
-      
-      if (!node.children || node.children.length === 0) {
-        return { width: NODE_WIDTH };
-      }
-      
-      // Calculate the total width needed for children
-      const childrenWidths = node.children.map(child => calculateSubtreeWidth(child));
-      const totalChildrenWidth = childrenWidths.reduce((sum, w) => sum + w, 0) + 
-                                 (node.children.length - 1) * HORIZONTAL_GAP;
-      
-      // Start position for the first child
-      let childX = x - totalChildrenWidth / 2 + childrenWidths[0] / 2;
-      
-      // Layout each child
-      node.children.forEach((child, i) => {
-        // Calculate edge connection points
-        const sourceX = x;
-        const sourceY = y + NODE_HEIGHT;
-        const targetX = childX;
-        const targetY = y + NODE_HEIGHT + LEVEL_GAP;
-        
-        // Calculate control points for smoother curves
-        const midY = sourceY + (targetY - sourceY) * 0.5;
-        const cp1Y = sourceY + (targetY - sourceY) * 0.2;
-        const cp2Y = targetY - (targetY - sourceY) * 0.2;
-        
-        // Create path data for the curved connection
-        const pathData = `
-          M ${sourceX} ${sourceY}
-          C ${sourceX} ${cp1Y},
-            ${targetX} ${cp2Y},
-            ${targetX} ${targetY}
-        `;
-        
-        links.push({
-          source: node.id,
-          target: child.id,
-          path: pathData,
-          label: node.type === 'IF' && node.children.length > 1 ? 
-            (i === 0 ? 'true' : 'false') : 
-            undefined,
-          midPoint: {
-            x: (sourceX + targetX) / 2,
-            y: midY
-          }
-        });
-        
-        // Layout this child
-        const childResult = layoutNodes(
-          child, 
-          childX, 
-          y + NODE_HEIGHT + LEVEL_GAP, 
-          level + 1
-        );
-        
-        // Move to the position for the next child
-        if (i < node.children.length - 1) {
-          childX += childResult.width + HORIZONTAL_GAP;
-        }
+
+    // Place the layers top to bottom, each as tall as its tallest block and centred on the widest
+    const { layers, retreating } = layerGraph(drawn);
+    const widest = Math.max(...layers.map(ids => ids.length));
+    const position = new Map<string, { x: number, y: number, height: number }>();
+    let y = 0;
+    layers.forEach(ids => {
+      const height = Math.max(...ids.map(id => blockHeight(blocks.get(id)!)));
+      const offset = (widest - ids.length) * (NODE_WIDTH + HORIZONTAL_GAP) / 2;
+      ids.forEach((id, i) => {
+        position.set(id, { x: offset + i * (NODE_WIDTH + HORIZONTAL_GAP), y, height: blockHeight(blocks.get(id)!) });
       });
-      
-      return { width: totalChildrenWidth };
-    };
-    
-    // Start the layout
-    layoutNodes(rootNode, 0, 0, 0);
-    
-    // Calculate the bounds
-    let minX = Number.POSITIVE_INFINITY;
-    let minY = Number.POSITIVE_INFINITY;
-    let maxX = Number.NEGATIVE_INFINITY;
-    let maxY = Number.NEGATIVE_INFINITY;
-    
-    nodes.forEach(node => {
-      minX = Math.min(minX, node.x - NODE_WIDTH / 2);
-      minY = Math.min(minY, node.y);
-      maxX = Math.max(maxX, node.x + NODE_WIDTH / 2);
-      maxY = Math.max(maxY, node.y + NODE_HEIGHT);
+      y += height + LEVEL_GAP;
     });
-    
-    // Adjust the view to fit all nodes
-    g.setAttribute('transform', `translate(${-minX + 50}, ${-minY + 50})`);
-    svg.setAttribute('width', String(maxX - minX + 100));
-    svg.setAttribute('height', String(maxY - minY + 100));
-    
-    // Draw the links first (so they appear behind nodes)
-    links.forEach(link => {
-      const linkGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-      g.appendChild(linkGroup);
-      
-      // Draw the link
+
+    const width = widest * (NODE_WIDTH + HORIZONTAL_GAP);
+    g.setAttribute('transform', 'translate(30, 20)');
+    svg.setAttribute('width', String(width + 30 + 40 + retreating.size * 14));
+    svg.setAttribute('height', String(y + 20));
+
+    // Draw the edges first (so they appear behind blocks). Edges leaving one block are spread
+    // along its bottom; retreating edges run up the right-hand side.
+    let backLane = 0;
+    drawn.edges.forEach(edge => {
+      const from = position.get(edge.from)!;
+      const to = position.get(edge.to)!;
+      const siblings = drawn.edges.filter(other => other.from === edge.from && !retreating.has(other));
+      const spread = (siblings.indexOf(edge) - (siblings.length - 1) / 2) * 30;
+
+      let pathData: string;
+      let labelPoint: { x: number, y: number };
+      if (retreating.has(edge)) {
+        const lane = Math.max(from.x, to.x) + NODE_WIDTH + 20 + 14 * backLane++;
+        const sy = from.y + from.height / 2;
+        const ty = to.y + to.height / 2;
+        pathData = `M ${from.x + NODE_WIDTH} ${sy} C ${lane} ${sy}, ${lane} ${ty}, ${to.x + NODE_WIDTH} ${ty}`;
+        labelPoint = { x: lane - 10, y: (sy + ty) / 2 };
+      } else {
+        const sx = from.x + NODE_WIDTH / 2 + spread;
+        const sy = from.y + from.height;
+        const tx = to.x + NODE_WIDTH / 2;
+        const ty = to.y;
+        pathData = `M ${sx} ${sy} C ${sx} ${sy + LEVEL_GAP / 2}, ${tx} ${ty - LEVEL_GAP / 2}, ${tx} ${ty}`;
+        labelPoint = { x: (sx + tx) / 2, y: sy + Math.min(LEVEL_GAP / 2, (ty - sy) / 2) };
+      }
+
       const linkElement = document.createElementNS('http://www.w3.org/2000/svg', 'path');
-      linkElement.setAttribute('d', link.path);
-      linkElement.setAttribute('stroke', '#666');
+      linkElement.setAttribute('d', pathData);
+      linkElement.setAttribute('stroke', EDGE_COLORS[edge.kind]);
       linkElement.setAttribute('stroke-width', '2');
       linkElement.setAttribute('fill', 'none');
-      linkElement.setAttribute('marker-end', 'url(#arrowhead)');
-      
-      linkGroup.appendChild(linkElement);
-      
-      // Add a label if needed
-      if (link.label) {
-        const labelGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-        labelGroup.setAttribute('transform', `translate(${link.midPoint.x},${link.midPoint.y})`);
-        
-        const labelBg = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-        labelBg.setAttribute('x', '-20');
-        labelBg.setAttribute('y', '-10');
-        labelBg.setAttribute('width', '40');
-        labelBg.setAttribute('height', '20');
-        labelBg.setAttribute('rx', '4');
-        labelBg.setAttribute('fill', '#fff');
-        labelBg.setAttribute('stroke', '#ddd');
-        
+      if (edge.kind === 'back' || retreating.has(edge)) linkElement.setAttribute('stroke-dasharray', '6 4');
+      if (!blocks.get(edge.from)!.reachable) linkElement.setAttribute('opacity', '0.3');
+      linkElement.setAttribute('marker-end', `url(#cfg-arrow-${edge.kind})`);
+      g.appendChild(linkElement);
+
+      // Branches are labelled with their outcome, jumps with what caused them
+      const label = edge.label ?? (edge.kind === 'true' || edge.kind === 'false' ? edge.kind : undefined);
+      if (label) {
         const labelText = document.createElementNS('http://www.w3.org/2000/svg', 'text');
-        labelText.setAttribute('x', '0');
-        labelText.setAttribute('y', '4');
+        labelText.setAttribute('x', String(labelPoint.x));
+        labelText.setAttribute('y', String(labelPoint.y));
         labelText.setAttribute('text-anchor', 'middle');
-        labelText.setAttribute('font-size', '12px');
-        labelText.textContent = link.label;
-        
-        labelGroup.appendChild(labelBg);
-        labelGroup.appendChild(labelText);
-        linkGroup.appendChild(labelGroup);
+        labelText.setAttribute('font-size', '11px');
+        labelText.setAttribute('fill', EDGE_COLORS[edge.kind]);
+        labelText.setAttribute('stroke', '#fff');
+        labelText.setAttribute('stroke-width', '3');
+        labelText.setAttribute('paint-order', 'stroke');
+        labelText.textContent = label;
+        g.appendChild(labelText);
       }
     });
-    
-    // Draw the nodes
-    nodes.forEach(node => {
+
+    // Draw the blocks
+    cfg.blocks.forEach(block => {
+      const { x, y: top, height } = position.get(block.id)!;
       const nodeGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-      nodeGroup.setAttribute('transform', `translate(${node.x - NODE_WIDTH / 2},${node.y})`);
+      nodeGroup.setAttribute('transform', `translate(${x},${top})`);
+      nodeGroup.style.cursor = 'pointer';
+      nodeGroup.addEventListener('click', () => setSelectedBlock(current => current === block.id ? null : block.id));
       g.appendChild(nodeGroup);
-      
+
+      const isLoopHeader = loopHeaders.has(block.id);
+      const isUnreachable = !block.reachable;
       let nodeShape;
       let fill;
       let stroke;
-      
-      switch (node.type) {
-        case 'ENTRY':
-        case 'EXIT':
-          nodeShape = document.createElementNS('http://www.w3.org/2000/svg', 'ellipse');
-          nodeShape.setAttribute('cx', String(NODE_WIDTH / 2));
-          nodeShape.setAttribute('cy', String(NODE_HEIGHT / 2));
-          nodeShape.setAttribute('rx', String(NODE_WIDTH / 2));
-          nodeShape.setAttribute('ry', String(NODE_HEIGHT / 2));
-          fill = node.type === 'ENTRY' ? '#d1fae5' : '#fee2e2';
-          stroke = node.type === 'ENTRY' ? '#059669' : '#dc2626';
-          break;
-          
-        case 'IF':
-          nodeShape = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
-          const diamondPoints = [
-            [NODE_WIDTH / 2, 0],
-            [NODE_WIDTH, NODE_HEIGHT / 2],
-            [NODE_WIDTH / 2, NODE_HEIGHT],
-            [0, NODE_HEIGHT / 2]
-          ];
-          nodeShape.setAttribute('points', diamondPoints.map(p => p.join(',')).join(' '));
-          fill = '#fef3c7';
-          stroke = '#d97706';
-          break;
-          
-        case 'WHILE':
-        case 'FOR':
-          nodeShape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-          nodeShape.setAttribute('width', String(NODE_WIDTH));
-          nodeShape.setAttribute('height', String(NODE_HEIGHT));
-          nodeShape.setAttribute('rx', '20');
-          nodeShape.setAttribute('ry', '20');
-          fill = '#dbeafe';
-          stroke = '#3b82f6';
-          break;
-          
-        default:
-          nodeShape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-          nodeShape.setAttribute('width', String(NODE_WIDTH));
-          nodeShape.setAttribute('height', String(NODE_HEIGHT));
-          nodeShape.setAttribute('rx', '8');
-          nodeShape.setAttribute('ry', '8');
-          fill = '#f3f4f6';
-          stroke = '#6b7280';
+
+      if (block.kind !== 'block') {
+        nodeShape = document.createElementNS('http://www.w3.org/2000/svg', 'ellipse');
+        nodeShape.setAttribute('cx', String(NODE_WIDTH / 2));
+        nodeShape.setAttribute('cy', String(height / 2));
+        nodeShape.setAttribute('rx', String(NODE_WIDTH / 2));
+        nodeShape.setAttribute('ry', String(height / 2));
+        fill = block.kind === 'entry' ? '#d1fae5' : '#fee2e2';
+        stroke = block.kind === 'entry' ? '#059669' : '#dc2626';
+      } else {
+        nodeShape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+        nodeShape.setAttribute('width', String(NODE_WIDTH));
+        nodeShape.setAttribute('height', String(height));
+        nodeShape.setAttribute('rx', isLoopHeader ? '20' : '8');
+        nodeShape.setAttribute('ry', isLoopHeader ? '20' : '8');
+        fill = isLoopHeader ? '#dbeafe' : block.condition ? '#fef3c7' : '#f3f4f6';
+        stroke = isLoopHeader ? '#3b82f6' : block.condition ? '#d97706' : '#6b7280';
       }
-      
+
+      // Dead code is greyed out
+      if (isUnreachable) {
+        fill = '#f9fafb';
+        stroke = '#d1d5db';
+        nodeShape.setAttribute('stroke-dasharray', '4 3');
+        nodeGroup.setAttribute('opacity', '0.6');
+      }
+
+      const mark = highlight.get(block.id);
+      if (mark === 'selected' || mark === 'inside') {
+        fill = mark === 'selected' ? '#ddd6fe' : '#f5f3ff';
+        stroke = '#7c3aed';
+      } else if (mark === 'frontier') {
+        stroke = '#ea580c';
+        nodeShape.setAttribute('stroke-dasharray', '6 3');
+      }
+
       nodeShape.setAttribute('fill', fill);
       nodeShape.setAttribute('stroke', stroke);
-      nodeShape.setAttribute('stroke-width', '2');
+      nodeShape.setAttribute('stroke-width', mark === 'selected' ? '3' : '2');
       nodeGroup.appendChild(nodeShape);
-      
+
       // Create a foreignObject for HTML content
       const foreignObject = document.createElementNS('http://www.w3.org/2000/svg', 'foreignObject');
       foreignObject.setAttribute('width', String(NODE_WIDTH));
-      foreignObject.setAttribute('height', String(NODE_HEIGHT));
-      
+      foreignObject.setAttribute('height', String(height));
+
       const div = document.createElement('div');
       div.style.width = '100%';
       div.style.height = '100%';
       div.style.display = 'flex';
       div.style.flexDirection = 'column';
-      div.style.alignItems = 'center';
       div.style.justifyContent = 'center';
-      div.style.padding = '12px';
+      div.style.padding = '6px 10px';
       div.style.boxSizing = 'border-box';
       div.style.overflow = 'hidden';
-      div.style.textAlign = 'center';
-      
+      div.style.textAlign = block.kind === 'block' ? 'left' : 'center';
+      div.title = isUnreachable ? `${describeBlock(block)} (never executed)` : describeBlock(block);
+
       const typeSpan = document.createElement('span');
-      typeSpan.style.fontSize = '16px';
+      typeSpan.style.fontSize = '13px';
       typeSpan.style.fontWeight = 'bold';
-      typeSpan.style.marginBottom = '6px';
-      typeSpan.textContent = node.type;
+      typeSpan.style.marginBottom = '2px';
+      typeSpan.textContent = block.kind === 'block' ? [block.id, block.label].filter(Boolean).join(' · ') : block.kind.toUpperCase();
       div.appendChild(typeSpan);
-      
-      if (node.condition) {
-        const conditionSpan = document.createElement('span');
-        conditionSpan.style.fontSize = '14px';
-        conditionSpan.style.lineHeight = '1.2';
-        conditionSpan.style.display = '-webkit-box';
-        conditionSpan.style.webkitLineClamp = '3';
-        conditionSpan.style.webkitBoxOrient = 'vertical';
-        conditionSpan.style.overflow = 'hidden';
-        conditionSpan.style.wordBreak = 'break-word';
-        conditionSpan.textContent = node.condition;
-        div.appendChild(conditionSpan);
+      if (isTree) {
+        foreignObject.appendChild(div);
+        nodeGroup.appendChild(foreignObject);
+        return;
+      }
+
+      const addLine = (text: string, color = isUnreachable ? '#9ca3af' : '#111827') => {
+        const line = document.createElement('span');
+        line.style.fontFamily = 'monospace';
+        line.style.fontSize = '12px';
+        line.style.lineHeight = `${LINE_HEIGHT}px`;
+        line.style.whiteSpace = 'nowrap';
+        line.style.overflow = 'hidden';
+        line.style.textOverflow = 'ellipsis';
+        line.style.color = color;
+        line.textContent = text;
+        div.appendChild(line);
+      };
+
+      block.statements.slice(0, MAX_STATEMENTS).forEach(statement => addLine(statement.text));
+      if (block.statements.length > MAX_STATEMENTS) {
+        addLine(`… ${block.statements.length - MAX_STATEMENTS} more`, '#6b7280');
+      }
+      if (block.condition) {
+        addLine(`${block.condition.text} ?`, '#92400e');
+      }
+      if (block.kind === 'block' && block.statements.length === 0 && !block.condition) {
+        addLine('(empty)', '#9ca3af');
       }
-      
+      if (showLoopDepth && cfg.dominance.loopDepth[block.id] > 0) {
+        addLine(`loop depth ${cfg.dominance.loopDepth[block.id]}`, '#1d4ed8');
+      }
+
       foreignObject.appendChild(div);
       nodeGroup.appendChild(foreignObject);
     });
   };
-  
-  if (!controlFlow) {
+
+  if (!graph) {
     return (
       <div className="h-full flex items-center justify-center">
         <p className="text-gray-500">No control flow information available</p>
       </div>
     );
   }
-  
+
+  const blockList = (ids: string[]) => ids.length === 0
+    ? <span className="text-gray-400">none</span>
+    : ids.map(id => (
+      <button key={id} onClick={() => setSelectedBlock(id)} className="mr-1 font-mono text-blue-700 hover:underline">
+        {id}
+      </button>
+    ));
+
   return (
-    <div className="h-full overflow-auto p-4">
-      <h3 className="text-lg font-medium mb-4">Control Flow</h3>
-      
-      <div className="bg-white border rounded-lg p-4">
-        <div className="overflow-auto">
-          <svg 
-            ref={svgRef} 
-            className="w-full" 
-            height="800"
-          />
+    <div className="h-full flex flex-col">
+      <div className="bg-gray-50 p-2 border-b flex flex-wrap justify-between items-center gap-2 text-sm">
+        <div className="flex gap-2">
+          <select
+            value={graph.functionName}
+            onChange={(e) => {
+              setFunctionName(e.target.value);
+              setSelectedBlock(null);
+            }}
+            className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            {controlFlow.map(candidate => (
+              <option key={candidate.functionName} value={candidate.functionName}>{candidate.functionName}()</option>
+            ))}
+          </select>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {SECTIONS.map(option => (
+              <button
+                key={option.section}
+                onClick={() => setSection(option.section)}
+                className={`px-2 py-1 ${section === option.section ? 'bg-gray-700 text-white' : 'bg-white hover:bg-gray-50'}`}
+              >
+                {option.title}
+              </button>
+            ))}
+          </div>
+        </div>
+        <span className="text-gray-600">
+          {graph.blocks.length - 2} basic block(s), {graph.edges.length} edge(s), {dominance!.loops.length} loop(s)
+        </span>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 overflow-auto p-4">
+          <svg ref={svgRef} />
+        </div>
+        <div className="w-80 border-l overflow-auto p-3 text-sm">
+          {selected === null ? (
+            <p className="text-gray-500 mb-4">Click a block to see what it dominates.</p>
+          ) : (
+            <div className="mb-4">
+              <h4 className="font-medium mb-2">Block {selected}</h4>
+              <dl className="space-y-1">
+                <div><dt className="inline text-gray-600">Immediate dominator: </dt><dd className="inline">{blockList(dominance!.idom[selected] ? [dominance!.idom[selected]!] : [])}</dd></div>
+                <div><dt className="inline text-gray-600">Dominates: </dt><dd className="inline">{blockList(descendantsOf(dominance!.idom, selected))}</dd></div>
+                <div><dt className="inline text-gray-600">Dominance frontier: </dt><dd className="inline">{blockList(dominance!.frontier[selected])}</dd></div>
+                <div><dt className="inline text-gray-600">Immediate post-dominator: </dt><dd className="inline">{blockList(dominance!.postIdom[selected] ? [dominance!.postIdom[selected]!] : [])}</dd></div>
+                <div><dt className="inline text-gray-600">Post-dominates: </dt><dd className="inline">{blockList(descendantsOf(dominance!.postIdom, selected))}</dd></div>
+                <div><dt className="inline text-gray-600">Loop depth: </dt><dd className="inline">{dominance!.loopDepth[selected]}</dd></div>
+              </dl>
+            </div>
+          )}
+
+          <h5 className="font-medium mb-1">Natural loops</h5>
+          {dominance!.loops.length === 0 ? (
+            <p className="text-gray-500 mb-4">No loops</p>
+          ) : (
+            <ul className="space-y-2 mb-4">
+              {dominance!.loops.map(loop => (
+                <li
+                  key={loop.header}
+                  className={`p-2 rounded border ${selectedLoop === loop ? 'border-purple-400 bg-purple-50' : 'border-gray-200'}`}
+                  style={{ marginLeft: (loop.depth - 1) * 12 }}
+                >
+                  <div>Header {blockList([loop.header])} <span className="text-gray-500">depth {loop.depth}</span></div>
+                  <div className="text-gray-600">Back edge(s) from {blockList(loop.latches)}</div>
+                  <div className="text-gray-600">Body {blockList(loop.blocks)}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h5 className="font-medium mb-1">Dominance</h5>
+          <table className="w-full text-xs font-mono border-collapse">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-1 pr-2">Block</th>
+                <th className="py-1 pr-2" title="Immediate dominator">idom</th>
+                <th className="py-1 pr-2" title="Dominance frontier">DF</th>
+                <th className="py-1" title="Immediate post-dominator">ipdom</th>
+              </tr>
+            </thead>
+            <tbody>
+              {graph.blocks.map(block => (
+                <tr
+                  key={block.id}
+                  onClick={() => setSelectedBlock(block.id)}
+                  className={`border-b cursor-pointer ${block.id === selected ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+                >
+                  <td className="py-1 pr-2">{block.id}</td>
+                  <td className="py-1 pr-2">{dominance!.idom[block.id] ?? '-'}</td>
+                  <td className="py-1 pr-2">{dominance!.frontier[block.id].join(', ') || '-'}</td>
+                  <td className="py-1">{dominance!.postIdom[block.id] ?? '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
       </div>
     </div>
   );
 };
 
-export default ControlFlowVisualization;
\ No newline at end of file
+export default ControlFlowVisualization;
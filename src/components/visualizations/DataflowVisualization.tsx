@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { ControlFlowGraph, DataflowResult } from '../../types/compiler';
+
+interface DataflowVisualizationProps {
+  controlFlow: ControlFlowGraph[];
+}
+
+// Helper to write the equations an analysis solves
+const describeEquations = (result: DataflowResult): string[] => {
+  const meet = result.meet === 'union' ? '∪' : '∩';
+  return result.direction === 'forward'
+    ? [`IN[B] = ${meet} OUT[P] for each predecessor P`, 'OUT[B] = gen[B] ∪ (IN[B] − kill[B])']
+    : [`OUT[B] = ${meet} IN[S] for each successor S`, 'IN[B] = gen[B] ∪ (OUT[B] − kill[B])'];
+};
+
+const DataflowVisualization: React.FC<DataflowVisualizationProps> = ({ controlFlow }) => {
+  const [functionName, setFunctionName] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<DataflowResult['name']>('Reaching definitions');
+  // Number of worklist steps applied, or null for the solution
+  const [step, setStep] = useState<number | null>(null);
+
+  const graph = controlFlow.find(candidate => candidate.functionName === functionName)
+    ?? controlFlow.find(candidate => candidate.functionName === 'main')
+    ?? controlFlow[0];
+
+  if (!graph) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <p className="text-gray-500">No functions to analyze</p>
+      </div>
+    );
+  }
+
+  const result = graph.dataflow.find(candidate => candidate.name === analysis) ?? graph.dataflow[0];
+  const last = result.steps.length;
+  const shown = step === null ? last : Math.min(step, last);
+
+  // IN and OUT of every block after the steps shown, and before the latest one to mark what it changed
+  const stateAfter = (count: number) => {
+    const state = { in: { ...result.initial.in }, out: { ...result.initial.out } };
+    result.steps.slice(0, count).forEach(visit => {
+      state.in[visit.block] = visit.in;
+      state.out[visit.block] = visit.out;
+    });
+    return state;
+  };
+  const current = stateAfter(shown);
+  const before = stateAfter(Math.max(0, shown - 1));
+  const visit = shown > 0 ? result.steps[shown - 1] : null;
+
+  const goTo = (next: number) => setStep(next >= last ? null : Math.max(0, next));
+  const buttonClass = 'px-2 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50';
+
+  const factSet = (facts: string[], changed = false) => (
+    <span className={`font-mono ${changed ? 'bg-yellow-100 rounded px-0.5' : ''}`}>
+      {facts.length === 0 ? '∅' : `{${facts.join(', ')}}`}
+    </span>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="bg-gray-50 p-2 border-b flex flex-wrap justify-between items-center gap-2 text-sm">
+        <div className="flex gap-2">
+          <select
+            value={graph.functionName}
+            onChange={(e) => {
+              setFunctionName(e.target.value);
+              setStep(null);
+            }}
+            className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            {controlFlow.map(candidate => (
+              <option key={candidate.functionName} value={candidate.functionName}>{candidate.functionName}()</option>
+            ))}
+          </select>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {graph.dataflow.map(option => (
+              <button
+                key={option.name}
+                onClick={() => {
+                  setAnalysis(option.name);
+                  setStep(null);
+                }}
+                className={`px-2 py-1 ${result.name === option.name ? 'bg-gray-700 text-white' : 'bg-white hover:bg-gray-50'}`}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+        </div>
+        <span className="text-gray-600">
+          {result.direction}, {result.meet}, fixpoint after {last} step(s)
+        </span>
+      </div>
+
+      <div className="bg-white p-2 border-b flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium text-gray-700">Worklist</span>
+        <button onClick={() => goTo(0)} disabled={shown === 0} className={buttonClass} title="Back to the starting values">⏮</button>
+        <button onClick={() => goTo(shown - 1)} disabled={shown === 0} className={buttonClass} title="Step back">◀</button>
+        <button onClick={() => goTo(shown + 1)} disabled={step === null} className={buttonClass} title="Step forward">▶|</button>
+        <button onClick={() => setStep(null)} disabled={step === null} className={buttonClass} title="Show the solution">⏭</button>
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={shown}
+          onChange={(e) => goTo(Number(e.target.value))}
+          className="w-32"
+        />
+        <span className="text-gray-600">
+          {visit === null
+            ? `Start: every ${result.direction === 'forward' ? 'OUT' : 'IN'} is ${result.meet === 'union' ? 'empty' : 'every fact'}, all blocks queued`
+            : `Step ${shown} of ${last}: visit ${visit.block}, ${visit.changed ? 'result changed' : 'no change'}; queued: ${visit.worklist.join(', ') || 'none'}`}
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 text-sm">
+        <div className="mb-3 text-gray-600 font-mono text-xs">
+          {describeEquations(result).map(equation => <div key={equation}>{equation}</div>)}
+        </div>
+
+        <table className="w-full border-collapse mb-6">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-1 pr-3">Block</th>
+              <th className="py-1 pr-3">gen</th>
+              <th className="py-1 pr-3">kill</th>
+              <th className="py-1 pr-3">IN</th>
+              <th className="py-1">OUT</th>
+            </tr>
+          </thead>
+          <tbody>
+            {graph.blocks.map(block => (
+              <tr key={block.id} className={`border-b align-top ${visit?.block === block.id ? 'bg-blue-50' : ''}`}>
+                <td className="py-1 pr-3 whitespace-nowrap">
+                  <span className="font-medium">{block.id}</span>
+                  {block.label && <span className="text-gray-500"> · {block.label}</span>}
+                </td>
+                <td className="py-1 pr-3">{factSet(result.gen[block.id])}</td>
+                <td className="py-1 pr-3">{factSet(result.kill[block.id])}</td>
+                <td className="py-1 pr-3">{factSet(current.in[block.id], visit !== null && current.in[block.id].join() !== before.in[block.id].join())}</td>
+                <td className="py-1">{factSet(current.out[block.id], visit !== null && current.out[block.id].join() !== before.out[block.id].join())}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h4 className="font-medium mb-2">
+          {result.name === 'Reaching definitions' ? 'Definitions' : result.name === 'Live variables' ? 'Variables' : 'Expressions'}
+        </h4>
+        {result.facts.length === 0 ? (
+          <p className="text-gray-500">Nothing to track in {graph.functionName}()</p>
+        ) : (
+          <ul className="space-y-1">
+            {result.facts.map(fact => (
+              <li key={fact.id}>
+                <span className="font-mono font-medium">{fact.id}</span>
+                <span className="text-gray-600">: {fact.description}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataflowVisualization;
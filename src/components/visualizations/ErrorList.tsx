@@ -49,6 +49,13 @@ const ErrorList: React.FC<ErrorListProps> = ({ errors }) => {
                       </pre>
                     )}
                   </div>
+                  {error.related && error.related.length > 0 && (
+                    <ul className="mt-2 text-sm text-red-700">
+                      {error.related.map((note, i) => (
+                        <li key={i}>Note: line {note.line}, column {note.column}: {note.message}</li>
+                      ))}
+                    </ul>
+                  )}
                   {error.suggestions && error.suggestions.length > 0 && (
                     <div className="mt-3">
                       <h4 className="text-sm font-medium text-red-800">Suggestions:</h4>
@@ -0,0 +1,160 @@
+import React from 'react';
+import { GrammarAnalysis, GrammarProduction } from '../../types/compiler';
+import { END_MARKER } from '../../services/Grammar';
+
+interface GrammarVisualizationProps {
+  grammar: GrammarAnalysis | null;
+}
+
+const GrammarVisualization: React.FC<GrammarVisualizationProps> = ({ grammar }) => {
+  if (!grammar) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <p className="text-gray-500 text-center max-w-sm">
+          This code was compiled with the built-in C parser. Switch the editor to Grammar mode and choose or
+          write a grammar to see its FIRST and FOLLOW sets and LL(1) table.
+        </p>
+      </div>
+    );
+  }
+
+  const { nonterminals, terminals, productions } = grammar.grammar;
+  const columns = [...terminals, END_MARKER];
+  const conflicting = new Set(grammar.conflicts.flatMap(conflict => conflict.productions));
+  const isLL1 = grammar.conflicts.length === 0 && grammar.leftRecursion.length === 0;
+
+  const formatBody = (production: GrammarProduction) =>
+    production.body.length > 0 ? production.body.join(' ') : 'ε';
+
+  const formatSet = (symbols: string[]) => symbols.length > 0 ? `{ ${symbols.join(', ')} }` : '∅';
+
+  return (
+    <div className="h-full overflow-auto p-4 space-y-6">
+      <div className="flex items-center gap-3">
+        <h3 className="text-lg font-medium">Grammar Analysis</h3>
+        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+          isLL1 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+        }`}>
+          {isLL1 ? 'LL(1)' : 'Not LL(1)'}
+        </span>
+        <span className="text-sm text-gray-500">
+          {nonterminals.length} nonterminals, {terminals.length} terminals, {productions.length} productions
+        </span>
+      </div>
+      
+      {grammar.errors.length > 0 && (
+        <div className="space-y-1">
+          {grammar.errors.map((error, i) => (
+            <div
+              key={i}
+              className={`px-3 py-2 text-sm rounded border ${
+                error.severity === 'error' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'
+              }`}
+            >
+              Grammar line {error.line}:{error.column}: {error.message}
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {grammar.leftRecursion.length > 0 && (
+        <div className="px-3 py-2 text-sm rounded border bg-red-50 border-red-200 text-red-800">
+          <p className="font-medium mb-1">Left recursion</p>
+          {grammar.leftRecursion.map((cycle, i) => (
+            <p key={i} className="font-mono">{cycle.join(' ⇒ ')} …</p>
+          ))}
+          <p className="mt-1">
+            The source is parsed with the LALR(1) table instead. To parse top-down, rewrite it with repetition,
+            e.g. <code>expr ::= term {'{'} '+' term {'}'}</code>.
+          </p>
+        </div>
+      )}
+      
+      {grammar.leftRecursion.length === 0 && grammar.conflicts.length > 0 && (
+        <div className="px-3 py-2 text-sm rounded border bg-amber-50 border-amber-200 text-amber-800">
+          The LL(1) table has conflicts, so the source is parsed with the LALR(1) table instead.
+          To parse top-down, left-factor the conflicting productions.
+        </div>
+      )}
+      
+      <div>
+        <h4 className="font-medium mb-2">Productions</h4>
+        <div className="border rounded-md bg-white p-3 font-mono text-sm">
+          {productions.map(production => (
+            <div key={production.id} className={conflicting.has(production.id) ? 'bg-red-50 text-red-800' : ''}>
+              <span className="inline-block w-8 text-right text-gray-500 mr-3">{production.id}</span>
+              {production.head} → {formatBody(production)}
+            </div>
+          ))}
+        </div>
+      </div>
+      
+      <div>
+        <h4 className="font-medium mb-2">Nullable, FIRST and FOLLOW</h4>
+        <table className="min-w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="py-2 px-4 border text-left">Nonterminal</th>
+              <th className="py-2 px-4 border text-left">Nullable</th>
+              <th className="py-2 px-4 border text-left">FIRST</th>
+              <th className="py-2 px-4 border text-left">FOLLOW</th>
+            </tr>
+          </thead>
+          <tbody>
+            {nonterminals.map(name => (
+              <tr key={name} className="hover:bg-gray-50">
+                <td className="py-2 px-4 border font-mono">{name}</td>
+                <td className="py-2 px-4 border">
+                  {grammar.nullable.includes(name) ? <span className="text-green-600">Yes</span> : 'No'}
+                </td>
+                <td className="py-2 px-4 border font-mono">{formatSet(grammar.first[name])}</td>
+                <td className="py-2 px-4 border font-mono">{formatSet(grammar.follow[name])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      
+      <div>
+        <h4 className="font-medium mb-2">LL(1) Parse Table</h4>
+        <p className="text-sm text-gray-500 mb-2">
+          Each cell is the production to expand by for that lookahead. Cells with more than one are conflicts;
+          when there are any, the source is parsed with the LALR(1) table instead.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="border-collapse text-sm font-mono">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="py-2 px-3 border text-left" />
+                {columns.map(terminal => (
+                  <th key={terminal} className="py-2 px-3 border whitespace-nowrap">{terminal}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {nonterminals.map(name => (
+                <tr key={name}>
+                  <th className="py-2 px-3 border text-left bg-gray-50 whitespace-nowrap">{name}</th>
+                  {columns.map(terminal => {
+                    const entries = grammar.table[name][terminal] ?? [];
+                    return (
+                      <td
+                        key={terminal}
+                        className={`py-2 px-3 border text-center ${entries.length > 1 ? 'bg-red-100 text-red-800 font-medium' : ''}`}
+                        title={entries.map(id => `${name} → ${formatBody(productions[id])}`).join('\n')}
+                      >
+                        {entries.join(', ')}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GrammarVisualization;
@@ -0,0 +1,401 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LRAction, LRAnalysis, LRItem, LRMethod, ParseTreeNode } from '../../types/compiler';
+import ParseTreeVisualization from './ParseTreeVisualization';
+import { END_MARKER } from '../../services/Grammar';
+import { LR_METHODS } from '../../services/LRAutomaton';
+
+interface LRVisualizationProps {
+  lr: LRAnalysis | null;
+}
+
+type LRSection = 'automaton' | 'tables' | 'trace';
+
+const formatAction = (action: LRAction): string =>
+  action.kind === 'shift' ? `s${action.state}` : action.kind === 'reduce' ? `r${action.production}` : 'acc';
+
+const LRVisualization: React.FC<LRVisualizationProps> = ({ lr }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [method, setMethod] = useState<LRMethod>('LALR(1)');
+  const [section, setSection] = useState<LRSection>('automaton');
+  const [selectedState, setSelectedState] = useState(0);
+  const [step, setStep] = useState(0);
+  const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
+  const [isDragging, setIsDragging] = useState(false);
+  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+
+  const table = lr?.tables[method];
+  const parse = lr?.parses[method];
+
+  useEffect(() => {
+    setStep(0);
+  }, [lr, method]);
+
+  // States are laid out in rows by their distance from the start state
+  useEffect(() => {
+    if (!lr || section !== 'automaton' || !svgRef.current) return;
+    
+    const analysis = lr;
+    const conflictStates = new Set(analysis.tables[method].conflicts.map(conflict => conflict.state));
+    const svg = svgRef.current;
+    svg.innerHTML = '';
+    
+    const NODE_WIDTH = 70;
+    const NODE_HEIGHT = 36;
+    const COLUMN_GAP = 40;
+    const ROW_GAP = 110;
+    
+    const depth = new Map<number, number>([[0, 0]]);
+    const queue = [0];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      Object.values(analysis.states[id].transitions).forEach(target => {
+        if (depth.has(target)) return;
+        depth.set(target, depth.get(id)! + 1);
+        queue.push(target);
+      });
+    }
+    
+    const rows: number[][] = [];
+    analysis.states.forEach(state => {
+      const row = depth.get(state.id) ?? 0;
+      (rows[row] ??= []).push(state.id);
+    });
+    const widest = Math.max(...rows.map(row => row.length));
+    const position = new Map<number, { x: number, y: number }>();
+    rows.forEach((row, r) => row.forEach((id, i) => {
+      const offset = (widest - row.length) * (NODE_WIDTH + COLUMN_GAP) / 2;
+      position.set(id, { x: offset + i * (NODE_WIDTH + COLUMN_GAP), y: r * (NODE_HEIGHT + ROW_GAP) });
+    }));
+    
+    const defs = document.createElementNS('http://www.w3.org/2000/svg', 'defs');
+    defs.innerHTML = '<marker id="lr-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" /></marker>';
+    svg.appendChild(defs);
+    
+    const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    g.setAttribute('transform', `translate(${transform.x + 20},${transform.y + 20}) scale(${transform.scale})`);
+    svg.appendChild(g);
+    
+    // Transitions of the selected state are drawn on top and in colour
+    const edges = analysis.states.flatMap(state => Object.entries(state.transitions)
+      .map(([symbol, target]) => ({ source: state.id, target, symbol })))
+      .sort((a, b) => Number(a.source === selectedState) - Number(b.source === selectedState));
+    
+    edges.forEach(edge => {
+      const from = position.get(edge.source)!;
+      const to = position.get(edge.target)!;
+      const isSelected = edge.source === selectedState;
+      const sx = from.x + NODE_WIDTH / 2;
+      const sy = from.y + NODE_HEIGHT;
+      const tx = to.x + NODE_WIDTH / 2;
+      const ty = to.y;
+      
+      const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+      // Edges that do not go down a row curve out to the side so they stay visible
+      const d = ty > sy
+        ? `M${sx},${sy} L${tx},${ty}`
+        : `M${sx},${sy} C${sx + 80},${sy + 60} ${tx + 80},${ty - 60} ${tx},${ty}`;
+      path.setAttribute('d', d);
+      path.setAttribute('stroke', isSelected ? '#2563eb' : '#cbd5e1');
+      path.setAttribute('stroke-width', isSelected ? '2' : '1');
+      path.setAttribute('fill', 'none');
+      path.setAttribute('marker-end', 'url(#lr-arrow)');
+      g.appendChild(path);
+      
+      if (isSelected) {
+        const label = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+        label.setAttribute('x', String((sx + tx) / 2 + 4));
+        label.setAttribute('y', String((sy + ty) / 2));
+        label.setAttribute('font-family', 'monospace');
+        label.setAttribute('font-size', '11px');
+        label.setAttribute('fill', '#1d4ed8');
+        label.textContent = edge.symbol;
+        g.appendChild(label);
+      }
+    });
+    
+    analysis.states.forEach(state => {
+      const { x, y } = position.get(state.id)!;
+      const hasConflict = conflictStates.has(state.id);
+      const isSelected = state.id === selectedState;
+      
+      const group = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+      group.setAttribute('transform', `translate(${x},${y})`);
+      group.style.cursor = 'pointer';
+      g.appendChild(group);
+      
+      const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+      rect.setAttribute('width', String(NODE_WIDTH));
+      rect.setAttribute('height', String(NODE_HEIGHT));
+      rect.setAttribute('rx', '6');
+      rect.setAttribute('fill', isSelected ? '#dbeafe' : hasConflict ? '#fee2e2' : '#f8fafc');
+      rect.setAttribute('stroke', hasConflict ? '#dc2626' : isSelected ? '#2563eb' : '#64748b');
+      rect.setAttribute('stroke-width', isSelected ? '2' : '1');
+      group.appendChild(rect);
+      
+      const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+      text.setAttribute('x', String(NODE_WIDTH / 2));
+      text.setAttribute('y', String(NODE_HEIGHT / 2));
+      text.setAttribute('text-anchor', 'middle');
+      text.setAttribute('dominant-baseline', 'middle');
+      text.setAttribute('font-family', 'monospace');
+      text.setAttribute('font-size', '12px');
+      text.textContent = `I${state.id}`;
+      group.appendChild(text);
+      
+      group.addEventListener('mousedown', (e) => e.stopPropagation());
+      group.addEventListener('click', (e) => {
+        e.stopPropagation();
+        setSelectedState(state.id);
+      });
+    });
+  }, [lr, section, method, selectedState, transform]);
+
+  const handleMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
+    setIsDragging(true);
+    setDragStart({ x: e.clientX, y: e.clientY });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!isDragging) return;
+    setTransform(prev => ({ ...prev, x: prev.x + e.clientX - dragStart.x, y: prev.y + e.clientY - dragStart.y }));
+    setDragStart({ x: e.clientX, y: e.clientY });
+  };
+
+  const handleWheel = (e: React.WheelEvent<SVGSVGElement>) => {
+    const scaleFactor = e.deltaY > 0 ? 0.9 : 1.1;
+    setTransform(prev => ({ ...prev, scale: Math.min(Math.max(0.1, prev.scale * scaleFactor), 3) }));
+  };
+
+  if (!lr || !table || !parse) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <p className="text-gray-500">No LR automaton available</p>
+      </div>
+    );
+  }
+
+  const productions = lr.productions;
+  // The augmented start production comes last, and its head never appears in GOTO
+  const nonterminals = [...new Set(productions.slice(0, -1).map(production => production.head))];
+  const terminals = [...new Set(productions.flatMap(production => production.body))]
+    .filter(symbol => !nonterminals.includes(symbol));
+  const actionColumns = [...terminals, END_MARKER];
+
+  const formatItem = (item: LRItem) => {
+    const production = productions[item.production];
+    const body = [...production.body.slice(0, item.dot), '•', ...production.body.slice(item.dot)];
+    return `${production.head} → ${body.join(' ')}`;
+  };
+
+  const state = lr.states[Math.min(selectedState, lr.states.length - 1)];
+  const traceStep = parse.trace[Math.min(step, parse.trace.length - 1)];
+  const forest: ParseTreeNode | null = traceStep && traceStep.forest.length > 0 ? {
+    id: 'lr_stack',
+    type: 'STACK',
+    span: { start: traceStep.forest[0].span.start, end: traceStep.forest[traceStep.forest.length - 1].span.end },
+    children: traceStep.forest
+  } : null;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="bg-gray-50 p-2 border-b flex flex-wrap justify-between items-center gap-2 text-sm">
+        <div className="flex gap-2">
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {LR_METHODS.map(option => (
+              <button
+                key={option}
+                onClick={() => setMethod(option)}
+                className={`px-2 py-1 ${method === option ? 'bg-blue-600 text-white' : 'bg-white hover:bg-gray-50'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {(['automaton', 'tables', 'trace'] as LRSection[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setSection(option)}
+                className={`px-2 py-1 capitalize ${section === option ? 'bg-gray-700 text-white' : 'bg-white hover:bg-gray-50'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 text-gray-600">
+          <span>{lr.states.length} states</span>
+          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+            table.conflicts.length === 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {table.conflicts.length === 0 ? `${method}` : `${table.conflicts.length} conflict(s)`}
+          </span>
+        </div>
+      </div>
+      
+      {section === 'automaton' && (
+        <div className="flex-1 flex overflow-hidden">
+          <svg
+            ref={svgRef}
+            className={`flex-1 h-full ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={() => setIsDragging(false)}
+            onMouseLeave={() => setIsDragging(false)}
+            onWheel={handleWheel}
+          />
+          <div className="w-80 border-l overflow-auto p-3 text-sm">
+            <h4 className="font-medium mb-2">State I{state.id}</h4>
+            <div className="font-mono text-xs space-y-1 mb-4">
+              {state.items.map((item, i) => (
+                <div key={i} className={i < state.kernel.length ? 'font-semibold' : 'text-gray-600'}>
+                  {formatItem(item)}
+                  {method === 'LALR(1)' && item.lookaheads.length > 0 && (
+                    <span className="text-teal-700"> , {item.lookaheads.join(' ')}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+            <h5 className="font-medium mb-1">Actions</h5>
+            <div className="font-mono text-xs space-y-0.5">
+              {Object.entries(table.action[state.id]).map(([terminal, entries]) => (
+                <div key={terminal} className={entries.length > 1 ? 'text-red-700 font-semibold' : ''}>
+                  {terminal}: {entries.map(formatAction).join(' / ')}
+                </div>
+              ))}
+              {Object.entries(table.goto[state.id]).map(([nonterminal, target]) => (
+                <div key={nonterminal} className="text-gray-600">
+                  {nonterminal}: goto {target}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {section === 'tables' && (
+        <div className="flex-1 overflow-auto p-3 space-y-4">
+          {table.conflicts.length > 0 && (
+            <div className="px-3 py-2 text-sm rounded border bg-red-50 border-red-200 text-red-800 space-y-0.5">
+              {table.conflicts.map((conflict, i) => (
+                <div key={i}>
+                  State {conflict.state} on {conflict.terminal}: {conflict.kind} conflict ({conflict.actions.map(formatAction).join(' / ')})
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="font-mono text-xs">
+            {productions.map(production => (
+              <div key={production.id}>
+                <span className="inline-block w-8 text-right text-gray-500 mr-3">{production.id}</span>
+                {production.head} → {production.body.join(' ') || 'ε'}
+              </div>
+            ))}
+          </div>
+          <table className="border-collapse text-xs font-mono">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="py-1 px-2 border" rowSpan={2}>State</th>
+                <th className="py-1 px-2 border" colSpan={actionColumns.length}>ACTION</th>
+                <th className="py-1 px-2 border" colSpan={nonterminals.length}>GOTO</th>
+              </tr>
+              <tr className="bg-gray-50">
+                {actionColumns.map(terminal => (
+                  <th key={terminal} className="py-1 px-2 border whitespace-nowrap">{terminal}</th>
+                ))}
+                {nonterminals.map(name => (
+                  <th key={name} className="py-1 px-2 border whitespace-nowrap">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {lr.states.map(({ id }) => (
+                <tr key={id}>
+                  <th className="py-1 px-2 border bg-gray-50">{id}</th>
+                  {actionColumns.map(terminal => {
+                    const entries = table.action[id][terminal] ?? [];
+                    return (
+                      <td
+                        key={terminal}
+                        className={`py-1 px-2 border text-center whitespace-nowrap ${entries.length > 1 ? 'bg-red-100 text-red-800 font-semibold' : ''}`}
+                      >
+                        {entries.map(formatAction).join(' / ')}
+                      </td>
+                    );
+                  })}
+                  {nonterminals.map(name => (
+                    <td key={name} className="py-1 px-2 border text-center text-gray-600">{table.goto[id][name] ?? ''}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      
+      {section === 'trace' && (
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <div className="p-2 border-b flex items-center gap-2 text-sm">
+            <button
+              onClick={() => setStep(Math.max(0, step - 1))}
+              className="px-2 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setStep(Math.min(parse.trace.length - 1, step + 1))}
+              className="px-2 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Next
+            </button>
+            <span className="text-gray-600">
+              Step {step + 1} of {parse.trace.length}{parse.truncated ? ' (trace truncated)' : ''}
+            </span>
+            {parse.errors.map((error, i) => (
+              <span key={i} className="text-red-700">Line {error.line}:{error.column}: {error.message}</span>
+            ))}
+          </div>
+          <div className="h-1/2 overflow-auto border-b">
+            <table className="min-w-full border-collapse text-xs font-mono">
+              <thead className="sticky top-0 bg-gray-50">
+                <tr>
+                  <th className="py-1 px-2 border text-left">Step</th>
+                  <th className="py-1 px-2 border text-left">Stack</th>
+                  <th className="py-1 px-2 border text-left">Symbols</th>
+                  <th className="py-1 px-2 border text-right">Input</th>
+                  <th className="py-1 px-2 border text-left">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {parse.trace.map((entry, i) => (
+                  <tr
+                    key={i}
+                    onClick={() => setStep(i)}
+                    className={`cursor-pointer ${i === step ? 'bg-blue-100' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="py-1 px-2 border">{i + 1}</td>
+                    <td className="py-1 px-2 border">{entry.stack.join(' ')}</td>
+                    <td className="py-1 px-2 border">{entry.symbols.join(' ')}</td>
+                    <td className="py-1 px-2 border text-right whitespace-nowrap">{entry.input.join(' ')}</td>
+                    <td className={`py-1 px-2 border ${entry.action === 'error' ? 'text-red-700' : ''}`}>{entry.action}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex-1 min-h-0">
+            {forest ? (
+              <ParseTreeVisualization parseTree={forest} concreteTree={null} expandAll />
+            ) : (
+              <div className="h-full flex items-center justify-center">
+                <p className="text-gray-500">The stack is empty before the first shift</p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LRVisualization;
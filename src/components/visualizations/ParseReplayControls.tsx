@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { ParseEvent, Token } from '../../types/compiler';
+
+interface ParseReplayControlsProps {
+  log: ParseEvent[];
+  tokens: Token[];
+  // Event shown, or null when the finished tree is shown
+  step: number | null;
+  onStepChange: (step: number | null) => void;
+}
+
+// Milliseconds between events while playing
+const SPEEDS = [
+  { label: 'Slow', delay: 800 },
+  { label: 'Normal', delay: 300 },
+  { label: 'Fast', delay: 60 }
+];
+
+// Helper to describe one parser action in words
+const describeEvent = (event: ParseEvent, tokens: Token[]): string => {
+  const token = tokens[event.token];
+  const at = token ? ` at '${token.value}' (line ${token.line}:${token.column})` : ' at the end of input';
+  switch (event.kind) {
+    case 'enter':
+      return `Enter rule ${event.detail}${at}`;
+    case 'consume':
+      return `Consume '${event.detail}'${token ? ` (line ${token.line}:${token.column})` : ''}`;
+    case 'node':
+      return `Create ${event.detail} node`;
+    case 'recover':
+      return `Recover from error: ${event.detail}`;
+  }
+};
+
+const ParseReplayControls: React.FC<ParseReplayControlsProps> = ({ log, tokens, step, onStepChange }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [delay, setDelay] = useState(SPEEDS[1].delay);
+  const last = log.length - 1;
+
+  // Advance one event per tick; reaching the end shows the finished tree
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => {
+      if (step === null || step >= last) {
+        setIsPlaying(false);
+        onStepChange(null);
+      } else {
+        onStepChange(step + 1);
+      }
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, last, delay, onStepChange]);
+
+  const play = () => {
+    if (step === null) onStepChange(0);
+    setIsPlaying(true);
+  };
+
+  const goTo = (next: number | null) => {
+    setIsPlaying(false);
+    onStepChange(next);
+  };
+
+  const buttonClass = 'px-2 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50';
+
+  return (
+    <div className="bg-white p-2 border-b flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium text-gray-700">Replay</span>
+      <button onClick={() => goTo(0)} className={buttonClass} title="Back to the first step">⏮</button>
+      <button
+        onClick={() => goTo(step === null ? last : Math.max(0, step - 1))}
+        disabled={step === 0}
+        className={buttonClass}
+        title="Step back"
+      >
+        ◀
+      </button>
+      {isPlaying ? (
+        <button onClick={() => setIsPlaying(false)} className={buttonClass} title="Pause">⏸</button>
+      ) : (
+        <button onClick={play} className={buttonClass} title="Play">▶</button>
+      )}
+      <button
+        onClick={() => goTo(step === null ? 0 : step >= last ? null : step + 1)}
+        className={buttonClass}
+        title="Step forward"
+      >
+        ▶|
+      </button>
+      <button onClick={() => goTo(null)} disabled={step === null} className={buttonClass} title="Show the finished tree">
+        ⏭
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={last}
+        value={step ?? last}
+        onChange={(e) => goTo(Number(e.target.value))}
+        className="w-32"
+      />
+      <select
+        value={delay}
+        onChange={(e) => setDelay(Number(e.target.value))}
+        className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+      >
+        {SPEEDS.map(speed => (
+          <option key={speed.label} value={speed.delay}>{speed.label}</option>
+        ))}
+      </select>
+      <span className={step !== null && log[step].kind === 'recover' ? 'text-red-700' : 'text-gray-600'}>
+        {step !== null
+          ? `Step ${step + 1} of ${log.length}: ${describeEvent(log[step], tokens)}`
+          : `${log.length} parser steps; press play to watch the tree grow`}
+      </span>
+    </div>
+  );
+};
+
+export default ParseReplayControls;
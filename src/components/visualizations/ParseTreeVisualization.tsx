@@ -1,23 +1,122 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { ParseTreeNode } from '../../types/compiler';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { ParseEvent, ParseTreeNode, Token } from '../../types/compiler';
+import ParseReplayControls from './ParseReplayControls';
 
 interface ParseTreeVisualizationProps {
   parseTree: ParseTreeNode | null;
+  concreteTree: ParseTreeNode | null;
+  // Show every node expanded, for trees that grow step by step
+  expandAll?: boolean;
+  // Parser log to replay, the tokens it refers to, and the step shown (null for the finished tree)
+  parseLog?: ParseEvent[];
+  tokens?: Token[];
+  replayStep?: number | null;
+  onReplayStepChange?: (step: number | null) => void;
 }
 
-const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTree }) => {
+type TreeView = 'ast' | 'cst';
+
+const NO_EVENTS: ParseEvent[] = [];
+const NO_TOKENS: Token[] = [];
+
+// Helper to cut a tree down to the nodes created by the given step of the parser log. Nodes the log
+// never mentions, such as the tokens of a recovered region, appear with their parent; nodes created
+// before their parent hang from the nearest ancestor that exists, so the AST grows bottom-up.
+const treeAtStep = (tree: ParseTreeNode, createdAt: Map<string, number>, step: number): ParseTreeNode => {
+  const prune = (n: ParseTreeNode, parentStep: number): ParseTreeNode[] => {
+    const at = createdAt.get(n.id) ?? parentStep;
+    const children = n.children.flatMap(child => prune(child, at));
+    return at <= step ? [{ ...n, children }] : children;
+  };
+  return { ...tree, children: tree.children.flatMap(child => prune(child, -1)) };
+};
+
+// Helper to find the nodes of one tree that correspond to a node of the other, and the ancestors
+// that must be expanded to show them
+const findCounterparts = (tree: ParseTreeNode, selected: ParseTreeNode) => {
+  const matches = new Set<string>();
+  const ancestors = new Set<string>();
+  const path: string[] = [];
+  
+  const visit = (n: ParseTreeNode) => {
+    if (n.id === selected.counterpart || n.counterpart === selected.id) {
+      matches.add(n.id);
+      path.forEach(id => ancestors.add(id));
+    }
+    path.push(n.id);
+    n.children.forEach(visit);
+    path.pop();
+  };
+  
+  visit(tree);
+  return { matches, ancestors };
+};
+
+const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({
+  parseTree,
+  concreteTree,
+  expandAll = false,
+  parseLog = NO_EVENTS,
+  tokens = NO_TOKENS,
+  replayStep = null,
+  onReplayStepChange
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [selectedNode, setSelectedNode] = useState<ParseTreeNode | null>(null);
+  // The tree node behind the selected layout node, kept when switching views
+  const [selection, setSelection] = useState<ParseTreeNode | null>(null);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set(['root']));
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const [view, setView] = useState<TreeView>('ast');
+  
+  const fullTree = view === 'cst' && concreteTree ? concreteTree : parseTree;
+  // Step at which each node was created, for replaying the parse
+  const createdAt = useMemo(() => {
+    const steps = new Map<string, number>();
+    parseLog.forEach((event, i) => {
+      if (!steps.has(event.nodeId)) steps.set(event.nodeId, i);
+    });
+    return steps;
+  }, [parseLog]);
+  const tree = useMemo(
+    () => fullTree && replayStep !== null ? treeAtStep(fullTree, createdAt, replayStep) : fullTree,
+    [fullTree, createdAt, replayStep]
+  );
+  const currentNode = replayStep !== null ? parseLog[replayStep]?.nodeId : undefined;
+  
+  useEffect(() => {
+    if (!tree || !svgRef.current) return;
+    renderTree(layoutTree(tree));
+  }, [tree, transform, expandedNodes, selection]);
   
+  // While a parse is replayed every node is shown as soon as it exists
   useEffect(() => {
-    if (!parseTree || !svgRef.current) return;
-    renderTree(layoutTree(parseTree));
-  }, [parseTree, transform, expandedNodes]);
+    if ((!expandAll && replayStep === null) || !tree) return;
+    const ids = new Set(['root']);
+    const visit = (n: ParseTreeNode) => {
+      ids.add(n.id);
+      n.children.forEach(visit);
+    };
+    visit(tree);
+    setExpandedNodes(ids);
+  }, [tree, expandAll, replayStep]);
+
+  // Switch trees and expand the path to whatever corresponds to the current selection
+  const showView = (next: TreeView) => {
+    const nextTree = next === 'cst' ? concreteTree : parseTree;
+    setView(next);
+    if (!nextTree || !selection) return;
+    
+    const { ancestors } = findCounterparts(nextTree, selection);
+    setExpandedNodes(prev => {
+      const expanded = new Set(prev);
+      ancestors.forEach(id => expanded.add(id === nextTree.id ? 'root' : id));
+      return expanded;
+    });
+  };
 
   const toggleNode = (nodeId: string) => {
     setExpandedNodes(prev => {
@@ -38,14 +137,21 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
     const NODE_SPACING = 5;
     const nodes: any[] = [];
     const links: any[] = [];
+    const counterparts = selection ? findCounterparts(node, selection).matches : new Set<string>();
     
     const processNode = (n: ParseTreeNode, x = 0, y = 0, level = 0): number => {
-      const isExpanded = expandedNodes.has(n.id);
+      const id = n === node ? 'root' : n.id;
+      const isExpanded = expandedNodes.has(id);
       
       nodes.push({
-        id: n.id,
+        id,
+        source: n,
+        isCounterpart: counterparts.has(n.id),
+        isCurrent: n.id === currentNode,
         label: n.type,
         value: n.value,
+        ctype: n.ctype,
+        span: n.span,
         x,
         y: y + level * (LEVEL_HEIGHT + NODE_SPACING),
         width: NODE_WIDTH,
@@ -68,7 +174,7 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
       n.children.forEach(child => {
         const childWidth = processNode(child, currentX, y, level + 1);
         links.push({
-          source: n.id,
+          source: id,
           target: child.id,
           sourceX: x,
           sourceY: y + level * (LEVEL_HEIGHT + NODE_SPACING) + NODE_HEIGHT,
@@ -81,7 +187,7 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
       return Math.max(NODE_WIDTH + NODE_SPACING, childrenWidth);
     };
     
-    processNode({ ...node, id: 'root' });
+    processNode(node);
     return { nodes, links };
   };
   
@@ -115,12 +221,18 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
       group.setAttribute('transform', `translate(${node.x - node.width / 2},${node.y})`);
       g.appendChild(group);
       
+      // Regions skipped by syntax error recovery are drawn in red, the node added by the replayed
+      // step in green and the nodes matching the selection made in the other tree in amber
+      const isError = node.label === 'ERROR';
+      const fill = isError ? '#fee2e2' : node.isCurrent ? '#dcfce7' : node.isCounterpart ? '#fef3c7' : node.isExpanded ? '#e0f2fe' : '#f0f9ff';
+      const stroke = isError ? '#dc2626' : node.isCurrent ? '#16a34a' : node.isCounterpart ? '#d97706' : '#0284c7';
+      
       const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
       rect.setAttribute('width', String(node.width));
       rect.setAttribute('height', String(node.height));
       rect.setAttribute('rx', '4');
-      rect.setAttribute('fill', node.isExpanded ? '#e0f2fe' : '#f0f9ff');
-      rect.setAttribute('stroke', '#0284c7');
+      rect.setAttribute('fill', fill);
+      rect.setAttribute('stroke', stroke);
       rect.setAttribute('stroke-width', '1.5');
       group.appendChild(rect);
       
@@ -155,6 +267,7 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
           toggleNode(node.id);
         }
         setSelectedNode(node);
+        setSelection(node.source);
       });
       
       group.addEventListener('mouseover', () => {
@@ -163,7 +276,7 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
       });
       
       group.addEventListener('mouseout', () => {
-        rect.setAttribute('fill', node.isExpanded ? '#e0f2fe' : '#f0f9ff');
+        rect.setAttribute('fill', fill);
         rect.setAttribute('stroke-width', '1.5');
       });
     });
@@ -239,7 +352,7 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
     }
   };
   
-  if (!parseTree) {
+  if (!tree) {
     return (
       <div className="h-full flex items-center justify-center">
         <p className="text-gray-500">No parse tree available</p>
@@ -251,6 +364,20 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
     <div className="h-full flex flex-col">
       <div className="bg-gray-50 p-2 border-b flex justify-between items-center text-sm">
         <div className="flex gap-2">
+          {concreteTree && (
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+              {(['ast', 'cst'] as TreeView[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => showView(option)}
+                  className={`px-2 py-1 ${view === option ? 'bg-blue-600 text-white' : 'bg-white hover:bg-gray-50'}`}
+                  title={option === 'ast' ? 'Abstract syntax tree' : 'Concrete parse tree, one node per grammar rule'}
+                >
+                  {option.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
           <button 
             onClick={() => setTransform({ x: 0, y: 0, scale: 1 })}
             className="px-2 py-1 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
@@ -277,6 +404,10 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
         </div>
       </div>
       
+      {parseLog.length > 0 && onReplayStepChange && (
+        <ParseReplayControls log={parseLog} tokens={tokens} step={replayStep} onStepChange={onReplayStepChange} />
+      )}
+      
       <div className="flex-1 overflow-hidden relative">
         <svg 
           ref={svgRef}
@@ -293,7 +424,10 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
             <div className="flex justify-between items-center mb-2">
               <h3 className="font-medium">Node Details</h3>
               <button 
-                onClick={() => setSelectedNode(null)}
+                onClick={() => {
+                  setSelectedNode(null);
+                  setSelection(null);
+                }}
                 className="text-gray-500 hover:text-gray-700"
               >
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
@@ -313,6 +447,22 @@ const ParseTreeVisualization: React.FC<ParseTreeVisualizationProps> = ({ parseTr
                 </>
               )}
               
+              {selectedNode.ctype && (
+                <>
+                  <dt className="font-medium text-gray-500">C Type</dt>
+                  <dd className="mb-1 font-mono">{selectedNode.ctype}</dd>
+                </>
+              )}
+              
+              {selectedNode.span && (
+                <>
+                  <dt className="font-medium text-gray-500">Source</dt>
+                  <dd className="mb-1">
+                    Line {selectedNode.span.start.line}:{selectedNode.span.start.column} to {selectedNode.span.end.line}:{selectedNode.span.end.column}
+                  </dd>
+                </>
+              )}
+              
               <dt className="font-medium text-gray-500">Position</dt>
               <dd>x: {Math.round(selectedNode.x)}, y: {Math.round(selectedNode.y)}</dd>
             </dl>
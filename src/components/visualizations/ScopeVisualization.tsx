@@ -1,11 +1,18 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { VariableScope } from '../../types/compiler';
 
 interface ScopeVisualizationProps {
   scopes: VariableScope[];
+  // Called with the scope under the mouse, or null when the mouse leaves the scopes
+  onHover?: (scope: VariableScope | null) => void;
 }
 
-const ScopeVisualization: React.FC<ScopeVisualizationProps> = ({ scopes }) => {
+const ScopeVisualization: React.FC<ScopeVisualizationProps> = ({ scopes, onHover }) => {
+  const [hovered, setHovered] = useState<VariableScope | null>(null);
+
+  // Clear the highlight when the tab is left with the mouse over a scope
+  useEffect(() => () => onHover?.(null), [onHover]);
+
   if (!scopes || scopes.length === 0) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -14,83 +21,125 @@ const ScopeVisualization: React.FC<ScopeVisualizationProps> = ({ scopes }) => {
     );
   }
 
-  return (
-    <div className="h-full overflow-auto p-4">
-      <h3 className="text-lg font-medium mb-4">Variable Scopes</h3>
+  const hover = (scope: VariableScope | null) => {
+    setHovered(scope);
+    onHover?.(scope);
+  };
+
+  // Scopes nest: the global scope holds the functions, which hold their blocks. The innermost
+  // scope under the mouse is the hovered one.
+  const renderScope = (scope: VariableScope, key: number): JSX.Element => (
+    <div
+      key={key}
+      className={`border rounded-lg overflow-hidden ${scope === hovered ? 'border-blue-400 ring-1 ring-blue-400' : ''}`}
+      onMouseOver={(e) => {
+        e.stopPropagation();
+        if (scope !== hovered) hover(scope);
+      }}
+    >
+      <div className={`p-3 border-b ${scope === hovered ? 'bg-blue-100' : 'bg-blue-50'}`}>
+        <h4 className="font-medium">
+          {scope.name}
+          <span className="ml-2 text-sm text-gray-500">
+            ({scope.start === scope.end ? `Line ${scope.start}` : `Lines ${scope.start}-${scope.end}`})
+          </span>
+        </h4>
+      </div>
       
-      <div className="space-y-6">
-        {scopes.map((scope, index) => (
-          <div key={index} className="border rounded-lg overflow-hidden">
-            <div className="bg-blue-50 p-3 border-b">
-              <h4 className="font-medium">
-                {scope.name}
-                <span className="ml-2 text-sm text-gray-500">
-                  (Lines {scope.start}-{scope.end})
-                </span>
-              </h4>
-            </div>
-            
-            <div className="p-4">
-              {scope.variables.length === 0 ? (
-                <p className="text-gray-500 text-sm">No variables in this scope</p>
-              ) : (
-                <table className="min-w-full">
-                  <thead>
-                    <tr className="bg-gray-50">
-                      <th className="py-2 px-4 text-left">Name</th>
-                      <th className="py-2 px-4 text-left">Type</th>
-                      <th className="py-2 px-4 text-left">Line</th>
-                      <th className="py-2 px-4 text-left">Used</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {scope.variables.map((variable, i) => (
-                      <tr key={i} className="border-t">
-                        <td className="py-2 px-4 font-mono">
-                          {variable.name}
-                        </td>
-                        <td className="py-2 px-4">
-                          <span className="px-2 py-1 bg-teal-100 text-teal-800 text-xs rounded-full">
-                            {variable.type}
-                          </span>
-                        </td>
-                        <td className="py-2 px-4">{variable.line}</td>
-                        <td className="py-2 px-4">
-                          {variable.used ? (
-                            <span className="text-green-600">Yes</span>
-                          ) : (
-                            <span className="text-red-600">No</span>
-                          )}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              )}
-              
-              {scope.children && scope.children.length > 0 && (
-                <div className="mt-4 pt-4 border-t">
-                  <h5 className="font-medium mb-2">Inner Scopes</h5>
-                  <div className="pl-4 border-l border-blue-200">
-                    {scope.children.map((child, i) => (
-                      <div key={i} className="mb-2">
-                        <h6 className="text-sm font-medium">
-                          {child.name}
-                          <span className="ml-2 text-xs text-gray-500">
-                            (Lines {child.start}-{child.end})
-                          </span>
-                        </h6>
-                        <p className="text-sm text-gray-600">
-                          {child.variables.length} variable(s)
-                        </p>
-                      </div>
-                    ))}
-                  </div>
+      <div className="p-4">
+        {scope.types.length > 0 && (
+          <div className="mb-4 space-y-3">
+            {scope.types.map((definition, i) => (
+              <div key={i} className="border rounded-md">
+                <div className="bg-gray-50 px-3 py-2 text-sm font-mono">
+                  <span className="text-teal-700">{definition.kind}</span> {definition.name}
+                  {definition.aliasOf && (
+                    <span className="text-gray-500"> = {definition.aliasOf}</span>
+                  )}
                 </div>
-              )}
+                {definition.members.length > 0 && (
+                  <table className="min-w-full text-sm">
+                    <tbody>
+                      {definition.members.map((member, j) => (
+                        <tr key={j} className="border-t">
+                          <td className="py-1 px-3 font-mono">{member.name}</td>
+                          <td className="py-1 px-3">
+                            {definition.kind === 'enum' ? (
+                              <span className="font-mono text-green-700">{member.value}</span>
+                            ) : (
+                              <span className="px-2 py-0.5 bg-teal-100 text-teal-800 text-xs rounded-full">
+                                {member.type}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        
+        {scope.variables.length === 0 ? (
+          <p className="text-gray-500 text-sm">No variables in this scope</p>
+        ) : (
+          <table className="min-w-full">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="py-2 px-4 text-left">Name</th>
+                <th className="py-2 px-4 text-left">Type</th>
+                <th className="py-2 px-4 text-left">Line</th>
+                <th className="py-2 px-4 text-left">Used</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scope.variables.map((variable, i) => (
+                <tr key={i} className="border-t">
+                  <td className="py-2 px-4 font-mono">
+                    {variable.name}
+                    {variable.isParameter && <span className="ml-2 text-xs text-gray-500">parameter</span>}
+                  </td>
+                  <td className="py-2 px-4">
+                    <span className="px-2 py-1 bg-teal-100 text-teal-800 text-xs rounded-full">
+                      {variable.type}
+                    </span>
+                  </td>
+                  <td className="py-2 px-4">{variable.line}</td>
+                  <td className="py-2 px-4">
+                    {variable.used ? (
+                      <span className="text-green-600">Yes</span>
+                    ) : variable.assigned ? (
+                      <span className="text-amber-600">Assigned only</span>
+                    ) : (
+                      <span className="text-red-600">No</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        
+        {scope.children.length > 0 && (
+          <div className="mt-4 pt-4 border-t">
+            <h5 className="font-medium mb-2">Inner Scopes</h5>
+            <div className="pl-4 border-l border-blue-200 space-y-4">
+              {scope.children.map((child, i) => renderScope(child, i))}
             </div>
           </div>
-        ))}
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="h-full overflow-auto p-4">
+      <h3 className="text-lg font-medium mb-4">Variable Scopes</h3>
+      
+      <div className="space-y-6" onMouseLeave={() => hover(null)}>
+        {scopes.map((scope, index) => renderScope(scope, index))}
       </div>
     </div>
   );
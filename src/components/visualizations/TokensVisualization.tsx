@@ -1,11 +1,20 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Token } from '../../types/compiler';
+import { TYPE_SPECIFIERS, TYPE_QUALIFIERS, STORAGE_CLASSES } from '../../services/keywords';
 
 interface TokensVisualizationProps {
   tokens: Token[];
+  // Index of the token to highlight, such as the one the parser is at while a parse is replayed
+  activeToken?: number;
 }
 
-const TokensVisualization: React.FC<TokensVisualizationProps> = ({ tokens }) => {
+const TokensVisualization: React.FC<TokensVisualizationProps> = ({ tokens, activeToken }) => {
+  const activeRowRef = useRef<HTMLTableRowElement>(null);
+
+  useEffect(() => {
+    activeRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeToken]);
+
   if (!tokens || tokens.length === 0) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -23,10 +32,16 @@ const TokensVisualization: React.FC<TokensVisualizationProps> = ({ tokens }) =>
     tokensByLine[token.line].push(token);
   });
 
-  const getTokenColor = (type: string): string => {
-    switch (type) {
+  const getTokenColor = (token: Token): string => {
+    switch (token.type) {
       case 'KEYWORD':
+        // Type keywords are told apart from statement keywords using the shared C keyword table
+        if (TYPE_SPECIFIERS.has(token.value) || TYPE_QUALIFIERS.has(token.value) || STORAGE_CLASSES.has(token.value)) {
+          return 'bg-teal-100 text-teal-800 border-teal-200';
+        }
         return 'bg-purple-100 text-purple-800 border-purple-200';
+      case 'TYPE_NAME':
+        return 'bg-teal-100 text-teal-800 border-teal-200';
       case 'IDENTIFIER':
         return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'OPERATOR':
@@ -34,9 +49,16 @@ const TokensVisualization: React.FC<TokensVisualizationProps> = ({ tokens }) =>
       case 'NUMBER':
         return 'bg-green-100 text-green-800 border-green-200';
       case 'STRING':
+      case 'CHAR':
         return 'bg-red-100 text-red-800 border-red-200';
       case 'PUNCTUATION':
         return 'bg-gray-100 text-gray-800 border-gray-200';
+      case 'COMMENT':
+        return 'bg-white text-gray-500 border-gray-200 italic';
+      case 'PREPROCESSOR':
+        return 'bg-pink-100 text-pink-800 border-pink-200';
+      case 'ERROR':
+        return 'bg-red-200 text-red-900 border-red-400';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -58,13 +80,22 @@ const TokensVisualization: React.FC<TokensVisualizationProps> = ({ tokens }) =>
           </thead>
           <tbody>
             {tokens.map((token, index) => (
-              <tr key={index} className="hover:bg-gray-50">
+              <tr
+                key={index}
+                ref={index === activeToken ? activeRowRef : undefined}
+                className={index === activeToken ? 'bg-yellow-100' : 'hover:bg-gray-50'}
+              >
                 <td className="py-2 px-4 border">
-                  <span className={`px-2 py-1 text-xs font-medium rounded border ${getTokenColor(token.type)}`}>
+                  <span className={`px-2 py-1 text-xs font-medium rounded border ${getTokenColor(token)}`}>
                     {token.type}
                   </span>
                 </td>
-                <td className="py-2 px-4 border font-mono">{token.value}</td>
+                <td className="py-2 px-4 border font-mono">
+                  {token.value}
+                  {token.literal !== undefined && String(token.literal) !== token.value && (
+                    <span className="ml-2 text-xs text-gray-500">= {JSON.stringify(token.literal)}</span>
+                  )}
+                </td>
                 <td className="py-2 px-4 border">{token.line}</td>
                 <td className="py-2 px-4 border">{token.column}</td>
               </tr>
@@ -82,7 +113,9 @@ const TokensVisualization: React.FC<TokensVisualizationProps> = ({ tokens }) =>
             {lineTokens.map((token, index) => (
               <span 
                 key={index} 
-                className={`inline-block px-1 rounded ${getTokenColor(token.type)}`}
+                className={`inline-block px-1 rounded ${getTokenColor(token)} ${
+                  token === tokens[activeToken ?? -1] ? 'ring-2 ring-yellow-400' : ''
+                }`}
                 title={token.type}
               >
                 {token.value}
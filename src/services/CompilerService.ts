@@ -2,40 +2,97 @@ import {
   CompilationResult, 
   Token, 
   ParseTreeNode, 
+  ParseEvent,
   VariableScope, 
-  ControlFlowNode,
-  ComplexityInfo
+  ControlFlowGraph,
+  ComplexityInfo,
+  CompilerError,
+  TypeDefinition,
+  LRAnalysis,
+  LRMethod,
+  LRParse,
+  LRTable,
+  DeclaredSymbol,
+  BasicBlock
 } from '../types/compiler';
+import { Lexer } from './Lexer';
+import { Parser, formatExpression } from './Parser';
+import { analyzeGrammar } from './Grammar';
+import { LL1Parser } from './LL1Parser';
+import { LRAutomaton, LR_METHODS } from './LRAutomaton';
+import { LRParser } from './LRParser';
+import { C_SUBSET_BNF } from './grammars';
+import { SymbolResolver } from './SymbolResolver';
+import { TypeChecker } from './TypeChecker';
+import { DefiniteAssignment } from './DefiniteAssignment';
+import { ControlFlowBuilder } from './ControlFlowBuilder';
+import { analyzeDominance } from './Dominators';
+import { DataflowAnalyzer } from './Dataflow';
+import { LIBRARY_TYPEDEFS, NO_RETURN_FUNCTIONS } from './library';
+import { adjustParameterType, elementType, isPointerType, recordKey, resolveTypedefs } from './ctypes';
+
+const LOOP_STATEMENTS = ['WHILE_STATEMENT', 'FOR_STATEMENT', 'DO_WHILE_STATEMENT'];
+
+// Every user-defined type of the program, looked up by the semantic checks
+interface TypeTable {
+  // Definition built for each definition node, by node id
+  definitions: Map<string, TypeDefinition>;
+  // typedef name -> the type it stands for
+  typedefs: Map<string, string>;
+  // `struct tag` or `union tag` -> its definition
+  records: Map<string, TypeDefinition>;
+  enumConstants: Map<string, number>;
+}
+
+// The automaton of the last grammar used; it only changes when the grammar text does
+let cachedAutomaton: { source: string, automaton: LRAutomaton } | null = null;
 
 export class CompilerService {
-  // Main compilation process
-  static async compile(code: string): Promise<CompilationResult> {
-    // Simulate a delay to make it feel like processing
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
+  // Main compilation process. Without a grammar the code is compiled as C; with one it is only
+  // parsed, by an LL(1) parser built from the grammar.
+  static async compile(code: string, grammarSource?: string): Promise<CompilationResult> {
     try {
+      if (grammarSource !== undefined) {
+        return this.parseWithGrammar(code, grammarSource);
+      }
+      
       // Step 1: Perform lexical analysis (tokenize the code)
-      const tokens = this.performLexicalAnalysis(code);
+      const { tokens, errors: lexicalErrors } = this.performLexicalAnalysis(code);
       
       // Step 2: Parse the tokens into a parse tree
-      const parseTree = this.performSyntaxAnalysis(tokens);
+      // Comments and preprocessor lines are shown in the token view but are not part of the grammar,
+      // and ERROR tokens have already been reported by the lexer
+      const syntaxTokens = tokens.filter(token => !['COMMENT', 'PREPROCESSOR', 'ERROR'].includes(token.type));
+      const { parseTree, concreteTree, log, errors: syntaxErrors } = this.performSyntaxAnalysis(syntaxTokens);
       
       // Step 3: Perform semantic analysis
-      const { scopes, errors } = this.performSemanticAnalysis(parseTree, tokens);
+      const { scopes, references, types, errors: semanticErrors } = this.performSemanticAnalysis(parseTree, this.collectMacros(tokens));
       
-      // Step 4: Analyze control flow
-      const controlFlow = this.analyzeControlFlow(parseTree);
+      // Step 4: Analyze control flow, and report dead code and functions that end without returning
+      const controlFlow = this.analyzeControlFlow(parseTree, references, types);
+      const controlFlowErrors = this.checkControlFlow(parseTree, controlFlow, types);
+      
+      // Diagnostics from all phases are listed in source order
+      const errors = [...lexicalErrors, ...syntaxErrors, ...semanticErrors, ...controlFlowErrors]
+        .sort((a, b) => a.line - b.line || a.column - b.column);
       
       // Step 5: Estimate algorithm complexity
-      const complexity = this.estimateComplexity(parseTree, controlFlow);
+      const complexity = this.estimateComplexity(parseTree, controlFlow, scopes);
+      
+      // Step 6: Parse the tokens bottom-up with the LR automata of the C grammar
+      const lr = this.performLRAnalysis(C_SUBSET_BNF, syntaxTokens);
       
       // Return the complete compilation result
       return {
         tokens,
         parseTree,
+        concreteTree,
         scopes,
         controlFlow,
         complexity,
+        grammar: null,
+        lr,
+        parseLog: this.indexParseLog(log, tokens, syntaxTokens),
         errors,
       };
     } catch (e) {
@@ -45,9 +102,13 @@ export class CompilerService {
       return {
         tokens: [],
         parseTree: null,
+        concreteTree: null,
         scopes: [],
-        controlFlow: null,
+        controlFlow: [],
         complexity: null,
+        grammar: null,
+        lr: null,
+        parseLog: [],
         errors: [
           {
             message: `Fatal error: ${e instanceof Error ? e.message : 'Unknown error'}`,
@@ -60,592 +121,460 @@ export class CompilerService {
     }
   }
   
-  // Lexical Analysis
-  private static performLexicalAnalysis(code: string): Token[] {
-    const tokens: Token[] = [];
-    
-    // Define token patterns using regular expressions
-    const patterns = [
-      { type: 'KEYWORD', pattern: /\b(int|char|float|double|void|if|else|while|for|return|printf)\b/ },
-      { type: 'IDENTIFIER', pattern: /[a-zA-Z_][a-zA-Z0-9_]*/ },
-      { type: 'STRING', pattern: /"[^"]*"/ },
-      { type: 'NUMBER', pattern: /\b\d+(\.\d+)?(e[+-]?\d+)?\b/ },
-      { type: 'OPERATOR', pattern: /[+\-*\/%=<>!&|^]=?|&&|\|\||\+\+|--/ },
-      { type: 'PUNCTUATION', pattern: /[;,(){}\[\].]/ },
-      { type: 'WHITESPACE', pattern: /\s+/ }
-    ];
-    
-    // Keep track of line and column
-    let line = 1;
-    let column = 1;
-    let remaining = code;
-    
-    // Tokenize until the entire string is processed
-    while (remaining.length > 0) {
-      let match = null;
-      let matchedType = '';
-      
-      // Try to match each pattern
-      for (const { type, pattern } of patterns) {
-        const regex = new RegExp(`^${pattern.source}`);
-        const result = regex.exec(remaining);
-        
-        if (result && (match === null || result[0].length > match.length)) {
-          match = result[0];
-          matchedType = type;
-        }
-      }
-      
-      // If we found a match
-      if (match) {
-        // Only add non-whitespace tokens to the result
-        if (matchedType !== 'WHITESPACE') {
-          tokens.push({
-            type: matchedType,
-            value: match,
-            line,
-            column
-          });
-        }
-        
-        // Update line and column
-        for (let i = 0; i < match.length; i++) {
-          if (match[i] === '\n') {
-            line++;
-            column = 1;
-          } else {
-            column++;
-          }
-        }
-        
-        // Move forward in the string
-        remaining = remaining.substring(match.length);
-      } else {
-        // If no pattern matches, we have an error
-        // Just skip the current character and continue
-        tokens.push({
-          type: 'ERROR',
-          value: remaining[0],
-          line,
-          column
-        });
-        
-        column++;
-        remaining = remaining.substring(1);
-      }
+  // Grammar workbench: analyze the grammar, then parse the tokens with its LL(1) table, or with its
+  // LALR(1) table when left recursion or a table conflict rules LL(1) parsing out. The tree is a
+  // concrete parse tree, and the C-specific phases after parsing do not apply.
+  private static parseWithGrammar(code: string, grammarSource: string): CompilationResult {
+    const { tokens, errors: lexicalErrors } = this.performLexicalAnalysis(code);
+    const syntaxTokens = tokens.filter(token => !['COMMENT', 'PREPROCESSOR', 'ERROR'].includes(token.type));
+    const grammar = analyzeGrammar(grammarSource);
+    const result = { tokens, concreteTree: null, scopes: [], controlFlow: [], complexity: null, grammar, parseLog: [] };
+    
+    if (grammar.errors.some(error => error.severity === 'error')) {
+      return {
+        ...result,
+        parseTree: null,
+        lr: null,
+        errors: [
+          ...lexicalErrors,
+          { message: 'The grammar has errors; fix them in the Grammar tab before parsing', line: 1, column: 1, severity: 'error' }
+        ]
+      };
     }
     
-    return tokens;
+    const lr = this.performLRAnalysis(grammarSource, syntaxTokens);
+    const { parseTree, errors: syntaxErrors } = grammar.leftRecursion.length > 0 || grammar.conflicts.length > 0
+      ? lr.parses['LALR(1)']
+      : new LL1Parser(grammar, syntaxTokens).parse();
+    const errors = [...lexicalErrors, ...syntaxErrors].sort((a, b) => a.line - b.line || a.column - b.column);
+    return { ...result, parseTree, lr, errors };
+  }
+  
+  // Lexical Analysis
+  private static performLexicalAnalysis(code: string): { tokens: Token[], errors: CompilerError[] } {
+    return new Lexer(code).tokenize();
   }
   
   // Syntax Analysis
-  private static performSyntaxAnalysis(tokens: Token[]): ParseTreeNode {
-    // For this simulation, we'll create a simplified parse tree
-    // In a real compiler, this would be more complex using a proper parser
-    
-    let nodeId = 0;
-    const getNextId = () => `node_${nodeId++}`;
-    
-    // Create the root program node
-    const rootNode: ParseTreeNode = {
-      id: getNextId(),
-      type: 'PROGRAM',
-      children: []
-    };
-    
-    // Find all function declarations
-    let i = 0;
-    
-    while (i < tokens.length) {
-      // Look for potential function declarations
-      if (
-        i + 3 < tokens.length &&
-        (tokens[i].type === 'KEYWORD' && ['int', 'void', 'char', 'float', 'double'].includes(tokens[i].value)) &&
-        tokens[i+1].type === 'IDENTIFIER' &&
-        tokens[i+2].type === 'PUNCTUATION' && tokens[i+2].value === '('
-      ) {
-        // We found a function declaration
-        const functionNode: ParseTreeNode = {
-          id: getNextId(),
-          type: 'FUNCTION_DECLARATION',
-          children: [
-            {
-              id: getNextId(),
-              type: 'TYPE',
-              value: tokens[i].value,
-              children: []
-            },
-            {
-              id: getNextId(),
-              type: 'IDENTIFIER',
-              value: tokens[i+1].value,
-              children: []
-            }
-          ]
-        };
-        
-        // Skip past the function name
-        i += 3;
-        
-        // Parse parameters
-        const paramsNode: ParseTreeNode = {
-          id: getNextId(),
-          type: 'PARAMETERS',
-          children: []
-        };
-        
-        // Simplified parameter parsing
-        while (i < tokens.length && tokens[i].value !== ')') {
-          if (tokens[i].type === 'KEYWORD' && ['int', 'void', 'char', 'float', 'double'].includes(tokens[i].value) &&
-              i + 1 < tokens.length && tokens[i+1].type === 'IDENTIFIER') {
-            
-            paramsNode.children.push({
-              id: getNextId(),
-              type: 'PARAMETER',
-              children: [
-                {
-                  id: getNextId(),
-                  type: 'TYPE',
-                  value: tokens[i].value,
-                  children: []
-                },
-                {
-                  id: getNextId(),
-                  type: 'IDENTIFIER',
-                  value: tokens[i+1].value,
-                  children: []
-                }
-              ]
-            });
-            
-            i += 2;
-            
-            // Skip comma if present
-            if (i < tokens.length && tokens[i].value === ',') {
-              i++;
-            }
-          } else {
-            i++;
-          }
-        }
-        
-        functionNode.children.push(paramsNode);
-        
-        // Skip the closing parenthesis
-        if (i < tokens.length && tokens[i].value === ')') {
-          i++;
-        }
-        
-        // Look for function body starting with '{'
-        if (i < tokens.length && tokens[i].value === '{') {
-          const bodyNode: ParseTreeNode = {
-            id: getNextId(),
-            type: 'FUNCTION_BODY',
-            children: []
-          };
-          
-          i++;
-          const openBraces = 1;
-          this.parseFunctionBody(tokens, i, openBraces, bodyNode, getNextId);
-          
-          // Find where the function body ends
-          let braceCount = 1;
-          const startPos = i;
-          
-          while (i < tokens.length && braceCount > 0) {
-            if (tokens[i].value === '{') braceCount++;
-            if (tokens[i].value === '}') braceCount--;
-            i++;
-          }
-          
-          functionNode.children.push(bodyNode);
-        }
-        
-        rootNode.children.push(functionNode);
-      } else {
-        i++;
-      }
-    }
-    
-    return rootNode;
+  private static performSyntaxAnalysis(tokens: Token[]): {
+    parseTree: ParseTreeNode,
+    concreteTree: ParseTreeNode,
+    log: ParseEvent[],
+    errors: CompilerError[]
+  } {
+    return new Parser(tokens).parse();
   }
   
-  // Helper method to parse function body
-  private static parseFunctionBody(
-    tokens: Token[], 
-    startIndex: number, 
-    openBraces: number,
-    parentNode: ParseTreeNode,
-    getNextId: () => string
-  ): number {
-    let i = startIndex;
-    let braceCount = openBraces;
-    
-    while (i < tokens.length && braceCount > 0) {
-      // Variable declaration
-      if (
-        i + 2 < tokens.length &&
-        tokens[i].type === 'KEYWORD' && ['int', 'char', 'float', 'double'].includes(tokens[i].value) &&
-        tokens[i+1].type === 'IDENTIFIER'
-      ) {
-        const declNode: ParseTreeNode = {
-          id: getNextId(),
-          type: 'VARIABLE_DECLARATION',
-          children: [
-            {
-              id: getNextId(),
-              type: 'TYPE',
-              value: tokens[i].value,
-              children: []
-            },
-            {
-              id: getNextId(),
-              type: 'IDENTIFIER',
-              value: tokens[i+1].value,
-              children: []
-            }
-          ]
-        };
-        
-        i += 2;
-        
-        // Check for initialization
-        if (i < tokens.length && tokens[i].value === '=') {
-          i++;
-          const valueNode = this.parseExpression(tokens, i, getNextId);
-          declNode.children.push(valueNode.node);
-          i = valueNode.newIndex;
-        }
-        
-        // Skip past semicolon
-        if (i < tokens.length && tokens[i].value === ';') {
-          i++;
-        }
-        
-        parentNode.children.push(declNode);
-      }
-      // If statement
-      else if (i < tokens.length && tokens[i].type === 'KEYWORD' && tokens[i].value === 'if') {
-        const ifNode: ParseTreeNode = {
-          id: getNextId(),
-          type: 'IF_STATEMENT',
-          children: []
-        };
-        
-        i++;
-        
-        // Parse condition inside parentheses
-        if (i < tokens.length && tokens[i].value === '(') {
-          i++;
-          const conditionNode: ParseTreeNode = {
-            id: getNextId(),
-            type: 'CONDITION',
-            children: []
-          };
-          
-          const parenCount = 1;
-          while (i < tokens.length && parenCount > 0) {
-            if (tokens[i].value === '(') braceCount++;
-            if (tokens[i].value === ')') braceCount--;
-            
-            if (parenCount > 0) {
-              conditionNode.children.push({
-                id: getNextId(),
-                type: tokens[i].type,
-                value: tokens[i].value,
-                children: []
-              });
-            }
-            i++;
-          }
-          
-          ifNode.children.push(conditionNode);
-        }
-        
-        // Parse the if body
-        if (i < tokens.length && tokens[i].value === '{') {
-          const ifBodyNode: ParseTreeNode = {
-            id: getNextId(),
-            type: 'IF_BODY',
-            children: []
-          };
-          
-          i++;
-          braceCount++;
-          i = this.parseFunctionBody(tokens, i, braceCount, ifBodyNode, getNextId);
-          
-          ifNode.children.push(ifBodyNode);
-        }
-        
-        // Parse potential else clause
-        if (i + 1 < tokens.length && tokens[i].type === 'KEYWORD' && tokens[i].value === 'else') {
-          const elseNode: ParseTreeNode = {
-            id: getNextId(),
-            type: 'ELSE',
-            children: []
-          };
-          
-          i++;
-          
-          if (i < tokens.length && tokens[i].value === '{') {
-            i++;
-            braceCount++;
-            i = this.parseFunctionBody(tokens, i, braceCount, elseNode, getNextId);
-          }
-          
-          ifNode.children.push(elseNode);
-        }
-        
-        parentNode.children.push(ifNode);
-      }
-      // Function call
-      else if (
-        i + 2 < tokens.length && 
-        tokens[i].type === 'IDENTIFIER' && 
-        tokens[i+1].value === '('
-      ) {
-        const callNode: ParseTreeNode = {
-          id: getNextId(),
-          type: 'FUNCTION_CALL',
-          children: [
-            {
-              id: getNextId(),
-              type: 'IDENTIFIER',
-              value: tokens[i].value,
-              children: []
-            }
-          ]
-        };
-        
-        i += 2;
-        
-        // Parse arguments
-        const argsNode: ParseTreeNode = {
-          id: getNextId(),
-          type: 'ARGUMENTS',
-          children: []
-        };
-        
-        // Simple argument parsing
-        while (i < tokens.length && tokens[i].value !== ')') {
-          if (tokens[i].type === 'STRING' || tokens[i].type === 'NUMBER' || tokens[i].type === 'IDENTIFIER') {
-            argsNode.children.push({
-              id: getNextId(),
-              type: tokens[i].type,
-              value: tokens[i].value,
-              children: []
-            });
-            
-            i++;
-            
-            // Skip comma if present
-            if (i < tokens.length && tokens[i].value === ',') {
-              i++;
-            }
-          } else {
-            i++;
-          }
-        }
-        
-        callNode.children.push(argsNode);
-        
-        // Skip the closing parenthesis
-        if (i < tokens.length && tokens[i].value === ')') {
-          i++;
-        }
-        
-        // Skip semicolon
-        if (i < tokens.length && tokens[i].value === ';') {
-          i++;
-        }
-        
-        parentNode.children.push(callNode);
-      }
-      // Return statement
-      else if (i < tokens.length && tokens[i].type === 'KEYWORD' && tokens[i].value === 'return') {
-        const returnNode: ParseTreeNode = {
-          id: getNextId(),
-          type: 'RETURN',
-          children: []
-        };
-        
-        i++;
-        
-        // Parse return value
-        if (i < tokens.length && tokens[i].value !== ';') {
-          const valueNode = this.parseExpression(tokens, i, getNextId);
-          returnNode.children.push(valueNode.node);
-          i = valueNode.newIndex;
-        }
-        
-        // Skip semicolon
-        if (i < tokens.length && tokens[i].value === ';') {
-          i++;
-        }
-        
-        parentNode.children.push(returnNode);
-      }
-      // Just track braces
-      else if (i < tokens.length && tokens[i].value === '{') {
-        braceCount++;
-        i++;
-      }
-      else if (i < tokens.length && tokens[i].value === '}') {
-        braceCount--;
-        i++;
-      }
-      else {
-        i++;
-      }
+  // The parser numbers only the tokens it was given; renumber its log by the full token list
+  private static indexParseLog(log: ParseEvent[], tokens: Token[], syntaxTokens: Token[]): ParseEvent[] {
+    const indices = new Map(tokens.map((token, index) => [token, index]));
+    return log.map(event => ({ ...event, token: indices.get(syntaxTokens[event.token]) ?? -1 }));
+  }
+  
+  // LR Analysis: the automaton with the tables of each method, and the tokens parsed with each table
+  private static performLRAnalysis(grammarSource: string, tokens: Token[]): LRAnalysis {
+    if (cachedAutomaton?.source !== grammarSource) {
+      cachedAutomaton = { source: grammarSource, automaton: new LRAutomaton(analyzeGrammar(grammarSource)) };
     }
+    const { automaton } = cachedAutomaton;
     
-    return i;
+    const tables = {} as Record<LRMethod, LRTable>;
+    const parses = {} as Record<LRMethod, LRParse>;
+    LR_METHODS.forEach(method => {
+      tables[method] = automaton.buildTable(method);
+      parses[method] = new LRParser(automaton.productions, tables[method], tokens).parse();
+    });
+    
+    return { productions: automaton.productions, states: automaton.states, tables, parses };
   }
   
-  // Helper to parse an expression
-  private static parseExpression(
-    tokens: Token[], 
-    startIndex: number,
-    getNextId: () => string
-  ): { node: ParseTreeNode, newIndex: number } {
-    let i = startIndex;
-    
-    const exprNode: ParseTreeNode = {
-      id: getNextId(),
-      type: 'EXPRESSION',
-      children: []
-    };
-    
-    while (i < tokens.length && tokens[i].value !== ';' && tokens[i].value !== ')' && tokens[i].value !== ',') {
-      exprNode.children.push({
-        id: getNextId(),
-        type: tokens[i].type,
-        value: tokens[i].value,
-        children: []
+  // Names defined with #define. Preprocessor lines are not expanded, but their names are declared.
+  private static collectMacros(tokens: Token[]): Set<string> {
+    const macros = new Set<string>();
+    tokens
+      .filter(token => token.type === 'PREPROCESSOR')
+      .forEach(token => {
+        const match = /^#\s*define\s+(\w+)/.exec(token.value);
+        if (match) macros.add(match[1]);
       });
-      
-      i++;
-    }
-    
-    return { node: exprNode, newIndex: i };
+    return macros;
   }
   
   // Semantic Analysis
-  private static performSemanticAnalysis(parseTree: ParseTreeNode, tokens: Token[]): { 
+  private static performSemanticAnalysis(parseTree: ParseTreeNode, macros: Set<string>): { 
     scopes: VariableScope[],
-    errors: any[]
+    references: Map<string, DeclaredSymbol>,
+    types: TypeTable,
+    errors: CompilerError[]
   } {
-    const scopes: VariableScope[] = [];
-    const errors: any[] = [];
+    const errors: CompilerError[] = [];
+    const typeTable = this.collectTypes(parseTree);
+    
+    // Resolve every identifier to its declaration. The global scope holds file-scope variables and
+    // types, with one child scope per function.
+    const { scope: globalScope, references, errors: resolutionErrors } = new SymbolResolver(typeTable.definitions, macros).resolve(parseTree);
+    errors.push(...resolutionErrors);
+    
+    // Give every expression its C type and check assignments, initializers and returns
+    const typeChecker = new TypeChecker(typeTable.typedefs, typeTable.records, references, node => this.evaluateConstant(node, typeTable.enumConstants));
+    errors.push(...typeChecker.check(parseTree));
+    
+    // Warn about local variables read before anything is stored in them
+    const definiteAssignment = new DefiniteAssignment(typeTable.typedefs, references, node => this.evaluateConstant(node, typeTable.enumConstants));
+    errors.push(...definiteAssignment.check(parseTree));
+    
+    // Check that prototypes agree with each other and with the function definitions
+    this.checkFunctionSignatures(parseTree, typeTable, errors);
     
     // Find all function declarations in the parse tree
     parseTree.children.forEach((functionNode, functionIndex) => {
       if (functionNode.type === 'FUNCTION_DECLARATION') {
         const functionName = functionNode.children[1].value || `function_${functionIndex}`;
         
-        // Create a scope for this function
-        const functionScope: VariableScope = {
-          name: functionName,
-          start: 1, // placeholder
-          end: tokens.length, // placeholder
-          variables: [],
-          children: []
-        };
-        
         // Find the function body to analyze
         const bodyNode = functionNode.children.find(child => child.type === 'FUNCTION_BODY');
         
         if (bodyNode) {
-          // Find variable declarations in the function body
-          this.findVariablesInScope(bodyNode, functionScope);
+          // Check break, continue, goto and case labels
+          this.checkJumpStatements(bodyNode, functionName, errors, typeTable.enumConstants);
           
-          // Find and analyze nested scopes (if, while, for blocks)
-          this.findNestedScopes(bodyNode, functionScope);
+          // Check '.' and '->' against the struct and union definitions
+          this.checkMemberAccess(functionNode, typeTable, errors);
         }
-        
-        // Add the function scope to our list
-        scopes.push(functionScope);
       }
     });
     
-    // Find any unused variables across all scopes
-    this.checkForUnusedVariables(scopes, errors);
+    // Find any unused variables across all function scopes. Globals may be used by other
+    // translation units, so they are not reported.
+    this.checkForUnusedVariables(globalScope.children, errors);
     
     // This is a very simplified semantic analysis
     // In a real compiler, we would do much more:
-    // - Type checking
-    // - Undefined variable references
-    // - Function signature validation
+    // - Checking that const objects are not modified
     // - etc.
     
-    return { scopes, errors };
+    return { scopes: [globalScope], references, types: typeTable, errors };
+  }
+  
+  // Helper to compare every prototype of a function with the other prototypes and with its
+  // definition: same return type, same number of parameters and the same parameter types.
+  // Qualifiers are ignored, and array parameters count as the pointers they are adjusted to.
+  private static checkFunctionSignatures(parseTree: ParseTreeNode, types: TypeTable, errors: CompilerError[]): void {
+    const firstDeclarations = new Map<string, ParseTreeNode>();
+    const definitions = new Set<string>();
+    
+    const parameterTypes = (node: ParseTreeNode) =>
+      node.children[2].children.map(parameter => resolveTypedefs(adjustParameterType(parameter.children[0].value!), types.typedefs));
+    
+    const signature = (node: ParseTreeNode) =>
+      `${node.children[0].value} ${node.children[1].value}(${node.children[2].children.map(parameter => parameter.children[0].value).join(', ')})`;
+    
+    parseTree.children
+      .filter(node => node.type === 'FUNCTION_PROTOTYPE' || node.type === 'FUNCTION_DECLARATION')
+      .forEach(node => {
+        const name = node.children[1].value!;
+        const isDefinition = node.type === 'FUNCTION_DECLARATION';
+        const kind = isDefinition ? 'defined' : 'declared';
+        const previous = firstDeclarations.get(name);
+        
+        const report = (message: string, suggestion: string) => {
+          const { line, column } = node.children[1].span.start;
+          errors.push({ message, line, column, severity: 'error', context: signature(node), suggestions: [suggestion] });
+        };
+        
+        if (isDefinition) {
+          if (definitions.has(name)) {
+            report(`Redefinition of function '${name}'`, 'Remove or rename one of the definitions');
+          }
+          definitions.add(name);
+        }
+        
+        if (!previous) {
+          firstDeclarations.set(name, node);
+          return;
+        }
+        
+        const previousSignature = signature(previous);
+        const returnType = resolveTypedefs(node.children[0].value!, types.typedefs);
+        const previousReturnType = resolveTypedefs(previous.children[0].value!, types.typedefs);
+        if (returnType !== previousReturnType) {
+          report(`Conflicting types for '${name}': ${kind} returning '${returnType}' but previously declared returning '${previousReturnType}'`,
+            `Make it match the earlier declaration '${previousSignature}'`);
+          return;
+        }
+        
+        const parameters = parameterTypes(node);
+        const previousParameters = parameterTypes(previous);
+        if (parameters.length !== previousParameters.length) {
+          report(`Conflicting types for '${name}': ${kind} with ${parameters.length} parameter(s) but previously declared with ${previousParameters.length}`,
+            `Make it match the earlier declaration '${previousSignature}'`);
+          return;
+        }
+        
+        const mismatch = parameters.findIndex((type, i) => type !== previousParameters[i]);
+        if (mismatch !== -1) {
+          report(`Conflicting types for '${name}': parameter ${mismatch + 1} is '${parameters[mismatch]}' but was previously declared as '${previousParameters[mismatch]}'`,
+            `Make it match the earlier declaration '${previousSignature}'`);
+        }
+      });
   }
   
-  // Helper to find all variables in a scope
-  private static findVariablesInScope(node: ParseTreeNode, scope: VariableScope): void {
-    if (node.type === 'VARIABLE_DECLARATION') {
-      const typeNode = node.children.find(child => child.type === 'TYPE');
-      const identifierNode = node.children.find(child => child.type === 'IDENTIFIER');
+  // Helper to check that jumps have a valid target: break inside a loop or switch, continue inside
+  // a loop, goto to a label of the same function, and no repeated case values in a switch
+  private static checkJumpStatements(
+    bodyNode: ParseTreeNode,
+    functionName: string,
+    errors: CompilerError[],
+    enumConstants: Map<string, number>
+  ): void {
+    const labels = new Set<string>();
+    const gotos: ParseTreeNode[] = [];
+    
+    const report = (node: ParseTreeNode, message: string, context: string, suggestions: string[]) => {
+      const { line, column } = node.span.start;
+      errors.push({ message, line, column, severity: 'error', context, suggestions });
+    };
+    
+    const visit = (node: ParseTreeNode, inLoop: boolean, inSwitch: boolean) => {
+      switch (node.type) {
+        case 'BREAK':
+          if (!inLoop && !inSwitch) {
+            report(node, "'break' statement not in a loop or switch", 'break;', ['Remove the break statement']);
+          }
+          break;
+        case 'CONTINUE':
+          if (!inLoop) {
+            report(node, "'continue' statement not in a loop", 'continue;', ['Remove the continue statement']);
+          }
+          break;
+        case 'GOTO':
+          gotos.push(node);
+          break;
+        case 'LABELED_STATEMENT':
+          if (labels.has(node.value!)) {
+            report(node, `Duplicate label '${node.value}' in function '${functionName}'`, `${node.value}:`, [
+              'Rename one of the labels'
+            ]);
+          }
+          labels.add(node.value!);
+          break;
+        case 'SWITCH_STATEMENT':
+          this.checkCaseLabels(node, report, enumConstants);
+          break;
+      }
       
-      if (typeNode && identifierNode) {
-        // We found a variable declaration
-        scope.variables.push({
-          name: identifierNode.value || 'unknown',
-          type: typeNode.value || 'unknown',
-          line: 0, // In a real implementation, we would have line information
-          used: false // We'll determine usage in a separate pass
-        });
+      const isLoop = LOOP_STATEMENTS.includes(node.type);
+      const isSwitch = node.type === 'SWITCH_STATEMENT';
+      node.children.forEach(child => visit(child, inLoop || isLoop, (inSwitch && !isLoop) || isSwitch));
+    };
+    
+    visit(bodyNode, false, false);
+    
+    gotos
+      .filter(gotoNode => !labels.has(gotoNode.value!))
+      .forEach(gotoNode => {
+        report(gotoNode, `Use of undeclared label '${gotoNode.value}'`, `goto ${gotoNode.value};`, [
+          `Define the label with '${gotoNode.value}:' in function '${functionName}'`
+        ]);
+      });
+  }
+  
+  // Helper to find repeated case values and repeated default labels in one switch statement
+  private static checkCaseLabels(
+    switchNode: ParseTreeNode,
+    report: (node: ParseTreeNode, message: string, context: string, suggestions: string[]) => void,
+    enumConstants: Map<string, number>
+  ): void {
+    const body = switchNode.children.find(child => child.type === 'SWITCH_BODY');
+    const seen = new Map<number, string>();
+    let defaultCount = 0;
+    
+    body?.children.forEach(clause => {
+      if (clause.type === 'DEFAULT' && ++defaultCount === 2) {
+        report(clause, 'Multiple default labels in one switch', 'default:', ['Remove one of the default labels']);
+      }
+      if (clause.type !== 'CASE') return;
+      
+      const value = this.evaluateConstant(clause.children[0], enumConstants);
+      if (value === null) {
+        report(clause, `Case value '${clause.value}' is not an integer constant`, `case ${clause.value}:`, [
+          'Use a number, a character, an enum constant or an expression of constants'
+        ]);
+      } else if (seen.has(value)) {
+        report(clause, `Duplicate case value '${clause.value}'`, `case ${clause.value}:`, [
+          `The value ${value} is already handled by 'case ${seen.get(value)}'`
+        ]);
+      } else {
+        seen.set(value, clause.value!);
       }
+    });
+  }
+  
+  // Helper to evaluate an integer constant expression, or null if it is not constant
+  private static evaluateConstant(node: ParseTreeNode, enumConstants?: Map<string, number>): number | null {
+    const [left, right] = node.children.map(child => this.evaluateConstant(child, enumConstants));
+    
+    switch (node.type) {
+      case 'NUMBER':
+      case 'CHAR':
+        return typeof node.literal === 'number' && Number.isInteger(node.literal) ? node.literal : null;
+      case 'IDENTIFIER':
+        return enumConstants?.get(node.value!) ?? null;
+      case 'UNARY_EXPRESSION':
+        if (left === null) return null;
+        switch (node.value) {
+          case '-': return -left;
+          case '+': return left;
+          case '~': return ~left;
+          case '!': return left ? 0 : 1;
+        }
+        return null;
+      case 'BINARY_EXPRESSION':
+        if (left === null || right === null) return null;
+        switch (node.value) {
+          case '+': return left + right;
+          case '-': return left - right;
+          case '*': return left * right;
+          case '/': return right === 0 ? null : Math.trunc(left / right);
+          case '%': return right === 0 ? null : left % right;
+          case '<<': return left << right;
+          case '>>': return left >> right;
+          case '&': return left & right;
+          case '|': return left | right;
+          case '^': return left ^ right;
+          case '==': return left === right ? 1 : 0;
+          case '!=': return left !== right ? 1 : 0;
+          case '<': return left < right ? 1 : 0;
+          case '>': return left > right ? 1 : 0;
+          case '<=': return left <= right ? 1 : 0;
+          case '>=': return left >= right ? 1 : 0;
+          case '&&': return left && right ? 1 : 0;
+          case '||': return left || right ? 1 : 0;
+        }
+        return null;
+      case 'CONDITIONAL_EXPRESSION': {
+        const [condition, whenTrue, whenFalse] = node.children.map(child => this.evaluateConstant(child, enumConstants));
+        if (condition === null) return null;
+        return condition ? whenTrue : whenFalse;
+      }
+      default:
+        return null;
     }
+  }
+  
+  // Helper to gather struct, union and enum definitions, typedefs and enum constant values.
+  // The typedefs of the standard headers come first, so a program's own can replace them.
+  private static collectTypes(parseTree: ParseTreeNode): TypeTable {
+    const table: TypeTable = { definitions: new Map(), typedefs: new Map(LIBRARY_TYPEDEFS), records: new Map(), enumConstants: new Map() };
+    
+    const visit = (node: ParseTreeNode) => {
+      if (node.type === 'TYPEDEF') {
+        const aliasOf = node.children[0].value!;
+        table.typedefs.set(node.value!, aliasOf);
+        table.definitions.set(node.id, { kind: 'typedef', name: node.value!, members: [], aliasOf });
+      } else if (node.type === 'ENUM_DEFINITION') {
+        let next = 0;
+        const members = node.children.map(enumerator => {
+          // Without an initializer an enumerator is one more than the previous one
+          const value = enumerator.children.length > 0
+            ? this.evaluateConstant(enumerator.children[0], table.enumConstants) ?? next
+            : next;
+          table.enumConstants.set(enumerator.value!, value);
+          next = value + 1;
+          return { name: enumerator.value!, type: 'int', value };
+        });
+        table.definitions.set(node.id, { kind: 'enum', name: node.value!, members });
+      } else if (node.type === 'STRUCT_DEFINITION' || node.type === 'UNION_DEFINITION') {
+        const kind = node.type === 'STRUCT_DEFINITION' ? 'struct' : 'union';
+        const members = node.children.map(field => ({ name: field.children[1].value!, type: field.children[0].value! }));
+        const definition: TypeDefinition = { kind, name: node.value!, members };
+        table.records.set(`${kind} ${node.value}`, definition);
+        table.definitions.set(node.id, definition);
+      }
+      
+      node.children.forEach(visit);
+    };
     
-    // Recursively process children
-    node.children.forEach(child => {
-      this.findVariablesInScope(child, scope);
-    });
+    visit(parseTree);
+    return table;
   }
   
-  // Helper to find nested scopes
-  private static findNestedScopes(node: ParseTreeNode, parentScope: VariableScope): void {
-    if (node.type === 'IF_BODY' || node.type === 'ELSE' || node.type.includes('LOOP_BODY')) {
-      // Create a new scope for this block
-      const childScope: VariableScope = {
-        name: node.type,
-        start: 0, // placeholder
-        end: 0,   // placeholder
-        variables: [],
-        children: []
-      };
+  // Helper to check member access: the left side of '.' must be a struct or union, the left side
+  // of '->' a pointer to one, and the member must be declared in its definition. The type of the
+  // left side is the one the type checker gave it; where it found none, nothing is reported.
+  private static checkMemberAccess(functionNode: ParseTreeNode, types: TypeTable, errors: CompilerError[]): void {
+    const report = (node: ParseTreeNode, message: string, context: string, suggestions: string[]) => {
+      const { line, column } = node.span.start;
+      errors.push({ message, line, column, severity: 'error', context, suggestions });
+    };
+    
+    const check = (node: ParseTreeNode) => {
+      const [object, memberNode] = node.children;
+      const objectType = object.ctype;
+      if (objectType === undefined) return;
       
-      // Find variables in this scope
-      this.findVariablesInScope(node, childScope);
+      const objectTypeResolved = resolveTypedefs(objectType, types.typedefs);
+      const member = memberNode.value!;
+      const expression = formatExpression(node);
+      const isArrow = node.value === '->';
+      const pointee = isPointerType(objectTypeResolved) ? elementType(objectTypeResolved) : null;
+      const record = recordKey(pointee ?? objectTypeResolved);
       
-      // Find any further nested scopes
-      node.children.forEach(child => {
-        this.findNestedScopes(child, childScope);
-      });
+      if (!record) {
+        report(object, `Member reference base type '${objectType}' is not a structure or union`, expression, [
+          `'${member}' can only be read from a struct or union`
+        ]);
+        return;
+      }
+      if (isArrow && pointee === null) {
+        report(memberNode, `Member reference type '${objectType}' is not a pointer`, expression, [
+          `Use '.' to access a member of a struct value: ${formatExpression(object)}.${member}`
+        ]);
+      } else if (!isArrow && pointee !== null) {
+        report(memberNode, `Member reference type '${objectType}' is a pointer`, expression, [
+          `Use '->' to access a member through a pointer: ${formatExpression(object)}->${member}`
+        ]);
+      }
       
-      // Add this scope as a child of the parent
-      parentScope.children.push(childScope);
-    } else {
-      // Recursively process all children
-      node.children.forEach(child => {
-        this.findNestedScopes(child, parentScope);
-      });
-    }
+      const definition = types.records.get(record);
+      if (!definition) {
+        report(object, `Incomplete definition of type '${record}'`, expression, [`Define ${record} before using its members`]);
+        return;
+      }
+      
+      if (!definition.members.some(candidate => candidate.name === member)) {
+        report(memberNode, `No member named '${member}' in '${record}'`, expression, [
+          definition.members.length > 0
+            ? `Members of ${record}: ${definition.members.map(candidate => candidate.name).join(', ')}`
+            : `${record} has no members`
+        ]);
+      }
+    };
+    
+    const visit = (node: ParseTreeNode) => {
+      node.children.forEach(visit);
+      if (node.type === 'MEMBER_ACCESS') check(node);
+    };
+    visit(functionNode);
   }
   
   // Helper to check for unused variables
   private static checkForUnusedVariables(scopes: VariableScope[], errors: any[]): void {
     const checkScope = (scope: VariableScope) => {
+      // Parameters are part of the function's interface, so an unused one is not reported
       scope.variables.forEach(variable => {
-        if (!variable.used && variable.name !== 'unused') {
+        if (!variable.used && !variable.isParameter && variable.name !== 'unused') {
           errors.push({
-            message: `Warning: Variable '${variable.name}' is declared but never used`,
+            message: variable.assigned
+              ? `Warning: Variable '${variable.name}' is assigned but never used`
+              : `Warning: Variable '${variable.name}' is declared but never used`,
             line: variable.line,
-            column: 0,
+            column: variable.column,
             severity: 'warning',
             context: `${variable.type} ${variable.name};`,
-            suggestions: [`Remove the unused variable declaration`, `Use the variable in your code`]
+            suggestions: variable.assigned
+              ? [`Remove the variable and the assignments to it`, `Use the variable in your code`]
+              : [`Remove the unused variable declaration`, `Use the variable in your code`]
           });
         }
       });
@@ -662,164 +591,202 @@ export class CompilerService {
   }
   
   // Control Flow Analysis
-  private static analyzeControlFlow(parseTree: ParseTreeNode): ControlFlowNode | null {
-    // Find the main function
-    const mainFunction = parseTree.children.find(node => 
-      node.type === 'FUNCTION_DECLARATION' && 
-      node.children.some(child => child.type === 'IDENTIFIER' && child.value === 'main')
-    );
-    
-    if (!mainFunction) {
-      return null;
-    }
-    
-    // Create the entry node
-    const entryNode: ControlFlowNode = {
-      id: 'entry',
-      type: 'ENTRY',
-      children: []
-    };
-    
-    // Find the function body
-    const bodyNode = mainFunction.children.find(child => child.type === 'FUNCTION_BODY');
-    
-    if (bodyNode) {
-      // Process the function body to build the control flow graph
-      const cfgNodes = this.buildControlFlowGraph(bodyNode);
+  // One control flow graph per function definition
+  private static analyzeControlFlow(
+    parseTree: ParseTreeNode,
+    references: Map<string, DeclaredSymbol>,
+    types: TypeTable
+  ): ControlFlowGraph[] {
+    const builder = new ControlFlowBuilder(node => this.evaluateConstant(node, types.enumConstants));
+    const dataflow = new DataflowAnalyzer(references);
+    return parseTree.children
+      .filter(node => node.type === 'FUNCTION_DECLARATION' && node.children.some(child => child.type === 'FUNCTION_BODY'))
+      .map(functionNode => {
+        const graph = builder.build(functionNode);
+        return { ...graph, dominance: analyzeDominance(graph), dataflow: dataflow.analyze(functionNode, graph) };
+      });
+  }
+  
+  // Helper to report what the control flow graphs show: branches a constant condition never takes,
+  // code no path reaches, and non-void functions whose end can be reached without a return
+  private static checkControlFlow(parseTree: ParseTreeNode, controlFlow: ControlFlowGraph[], types: TypeTable): CompilerError[] {
+    const errors: CompilerError[] = [];
+    const functions = parseTree.children
+      .filter(node => node.type === 'FUNCTION_DECLARATION' && node.children.some(child => child.type === 'FUNCTION_BODY'));
+    
+    functions.forEach((functionNode, index) => {
+      const graph = controlFlow[index];
+      const [typeNode, nameNode] = functionNode.children;
+      const bodyNode = functionNode.children.find(child => child.type === 'FUNCTION_BODY')!;
+      const skipped = this.checkConstantConditions(bodyNode, types.enumConstants, errors);
+      this.checkUnreachableCode(graph, bodyNode, skipped, errors);
       
-      if (cfgNodes.length > 0) {
-        entryNode.children = [cfgNodes[0]];
+      // Reaching the end of main returns 0; any other non-void function must return a value itself
+      const reachable = new Set(graph.blocks.filter(block => block.reachable).map(block => block.id));
+      const fallsOffEnd = graph.edges.some(edge => edge.to === graph.exit && edge.kind === 'fallthrough' && reachable.has(edge.from));
+      if (fallsOffEnd && nameNode.value !== 'main' && resolveTypedefs(typeNode.value!, types.typedefs) !== 'void') {
+        const { line, column } = nameNode.span.start;
+        errors.push({
+          message: `Non-void function '${nameNode.value}' does not return a value in all control paths`,
+          line,
+          column,
+          severity: 'warning',
+          context: `${typeNode.value} ${nameNode.value}(...)`,
+          suggestions: [`Add a return statement with a '${typeNode.value}' value at the end of the function`]
+        });
       }
-    }
+    });
     
-    // Add an exit node
-    const exitNode: ControlFlowNode = {
-      id: 'exit',
-      type: 'EXIT',
-      children: []
+    return errors;
+  }
+  
+  // Helper to warn about if, while and for conditions that are constant, so that a branch is never
+  // taken. Returns the branches skipped, whose code is not reported again as unreachable.
+  private static checkConstantConditions(
+    bodyNode: ParseTreeNode,
+    enumConstants: Map<string, number>,
+    errors: CompilerError[]
+  ): ParseTreeNode[] {
+    const skipped: ParseTreeNode[] = [];
+    
+    const report = (expression: ParseTreeNode, message: string, suggestion: string) => {
+      const { line, column } = expression.span.start;
+      errors.push({ message, line, column, severity: 'warning', context: formatExpression(expression), suggestions: [suggestion] });
     };
     
-    // Find the last node and connect it to the exit node
-    const findLastNode = (node: ControlFlowNode): ControlFlowNode => {
-      if (node.children.length === 0) {
-        return node;
+    const visit = (node: ParseTreeNode) => {
+      const part = (type: string) => node.children.find(child => child.type === type);
+      const expression = part('CONDITION')?.children[0];
+      const value = expression && node.type !== 'DO_WHILE_STATEMENT' && node.type !== 'SWITCH_STATEMENT'
+        ? this.evaluateConstant(expression, enumConstants)
+        : null;
+      
+      if (value === 0 && node.type === 'IF_STATEMENT') {
+        report(expression!, 'Condition is always false, so the body of the if is never executed', 'Remove the if statement, or fix its condition');
+        skipped.push(part('IF_BODY')!);
+      } else if (value === 0) {
+        report(expression!, 'Condition is always false, so the loop body is never executed', 'Remove the loop, or fix its condition');
+        skipped.push(part('LOOP_BODY')!);
+      } else if (value !== null && node.type === 'IF_STATEMENT' && part('ELSE')) {
+        report(expression!, "Condition is always true, so the 'else' branch is never executed", 'Remove the else branch, or fix the condition');
+        skipped.push(part('ELSE')!);
       }
-      return findLastNode(node.children[node.children.length - 1]);
+      
+      node.children.forEach(visit);
     };
     
-    if (entryNode.children.length > 0) {
-      const lastNode = findLastNode(entryNode.children[0]);
-      lastNode.children.push(exitNode);
-    } else {
-      entryNode.children.push(exitNode);
-    }
-    
-    return entryNode;
+    visit(bodyNode);
+    return skipped;
   }
   
-  // Helper to build a control flow graph
-  private static buildControlFlowGraph(node: ParseTreeNode): ControlFlowNode[] {
-    const nodes: ControlFlowNode[] = [];
-    
-    // Process each child node
-    node.children.forEach(child => {
-      if (child.type === 'IF_STATEMENT') {
-        // Create an IF node
-        const ifNode: ControlFlowNode = {
-          id: `if_${child.id}`,
-          type: 'IF',
-          condition: this.getConditionString(child),
-          children: []
-        };
-        
-        // Find the true branch (if body)
-        const ifBody = child.children.find(n => n.type === 'IF_BODY');
-        if (ifBody) {
-          const trueNodes = this.buildControlFlowGraph(ifBody);
-          if (trueNodes.length > 0) {
-            ifNode.children.push(trueNodes[0]);
-          }
-        }
-        
-        // Find the false branch (else body)
-        const elseBody = child.children.find(n => n.type === 'ELSE');
-        if (elseBody) {
-          const falseNodes = this.buildControlFlowGraph(elseBody);
-          if (falseNodes.length > 0) {
-            ifNode.children.push(falseNodes[0]);
-          }
-        }
-        
-        nodes.push(ifNode);
-      }
-      else if (child.type === 'FUNCTION_CALL') {
-        // Create a call node
-        const callNode: ControlFlowNode = {
-          id: `call_${child.id}`,
-          type: 'CALL',
-          children: []
-        };
-        
-        nodes.push(callNode);
-      }
-      else if (child.type === 'RETURN') {
-        // Create a return node
-        const returnNode: ControlFlowNode = {
-          id: `return_${child.id}`,
-          type: 'RETURN',
-          children: []
-        };
-        
-        nodes.push(returnNode);
-      }
-      else if (child.type === 'VARIABLE_DECLARATION') {
-        // Create a statement node for variable declaration
-        const declNode: ControlFlowNode = {
-          id: `decl_${child.id}`,
-          type: 'STATEMENT',
-          children: []
-        };
-        
-        nodes.push(declNode);
-      }
-      // Add more control structures as needed (while, for, etc.)
+  // Helper to warn once about each stretch of code that no path from the start of the function
+  // reaches, at its first statement
+  private static checkUnreachableCode(
+    graph: ControlFlowGraph,
+    bodyNode: ParseTreeNode,
+    skipped: ParseTreeNode[],
+    errors: CompilerError[]
+  ): void {
+    const successors = new Map<string, BasicBlock[]>(graph.blocks.map(block => [block.id, []]));
+    const blocks = new Map(graph.blocks.map(block => [block.id, block]));
+    graph.edges.forEach(edge => successors.get(edge.from)!.push(blocks.get(edge.to)!));
+    
+    const contains = (outer: ParseTreeNode, inner: ParseTreeNode) => {
+      const { start, end } = outer.span;
+      const at = inner.span.start;
+      return (at.line > start.line || (at.line === start.line && at.column >= start.column))
+        && (at.line < end.line || (at.line === end.line && at.column <= end.column));
+    };
+    
+    // Blocks are numbered in source order, so the first block of a stretch is met before the rest.
+    // The test of `do { ... break; } while (0)` is left alone, as that loop is only there to break out of.
+    const covered = new Set<BasicBlock>();
+    graph.blocks.forEach(block => {
+      const first = block.statements[0] ?? block.condition;
+      if (block.reachable || covered.has(block) || !first || block.label === 'do-while condition') return;
       
-      // Recursively process children that might contain control structures
-      if (child.children && child.children.length > 0 && 
-          child.type !== 'IF_BODY' && child.type !== 'ELSE') {
-        const childNodes = this.buildControlFlowGraph(child);
-        nodes.push(...childNodes);
+      const pending = [block];
+      while (pending.length > 0) {
+        const next = pending.pop()!;
+        if (covered.has(next)) continue;
+        covered.add(next);
+        pending.push(...successors.get(next.id)!.filter(successor => !successor.reachable));
       }
+      
+      if (skipped.some(branch => contains(branch, first.node))) return;
+      const { line, column } = first.node.span.start;
+      errors.push({
+        message: 'Code will never be executed',
+        line,
+        column,
+        severity: 'warning',
+        context: first.text,
+        suggestions: [this.describeUnreachable(bodyNode, first.node, graph.functionName)]
+      });
     });
-    
-    // Connect nodes sequentially
-    for (let i = 0; i < nodes.length - 1; i++) {
-      // Only connect if this node doesn't already have children 
-      // (meaning it's not a control structure with dedicated exits)
-      if (nodes[i].type !== 'IF' && nodes[i].type !== 'RETURN') {
-        nodes[i].children.push(nodes[i + 1]);
-      }
-    }
-    
-    return nodes;
   }
   
-  // Helper to extract the condition string from an if statement
-  private static getConditionString(ifNode: ParseTreeNode): string {
-    const conditionNode = ifNode.children.find(child => child.type === 'CONDITION');
-    if (conditionNode && conditionNode.children.length > 0) {
-      return conditionNode.children.map(token => token.value).join(' ');
+  // Helper to explain why a statement cannot be reached, from the statement before it
+  private static describeUnreachable(bodyNode: ParseTreeNode, node: ParseTreeNode, functionName: string): string {
+    const pathTo = (from: ParseTreeNode): ParseTreeNode[] | null => {
+      if (from === node) return [from];
+      for (const child of from.children) {
+        const path = pathTo(child);
+        if (path) return [from, ...path];
+      }
+      return null;
+    };
+    const path = pathTo(bodyNode) ?? [bodyNode, node];
+    
+    // A condition or for clause stands for its statement, and the first statement of a block for the block
+    let depth = path.length - 1;
+    while (depth > 1) {
+      const parent = path[depth - 1];
+      const isClause = ['CONDITION', 'FOR_INIT', 'FOR_UPDATE'].includes(parent.type);
+      if (!isClause && !(parent.type === 'BLOCK' && parent.children[0] === path[depth])) break;
+      depth--;
+    }
+    const parent = path[depth - 1];
+    const previous = parent.children[parent.children.indexOf(path[depth]) - 1];
+    const where = previous ? ` on line ${previous.span.start.line}` : '';
+    const call = previous?.type === 'EXPRESSION_STATEMENT' && previous.children[0]?.type === 'FUNCTION_CALL'
+      ? previous.children[0].children[0].value ?? ''
+      : '';
+    
+    switch (previous?.type) {
+      case 'RETURN':
+        return `It follows the return statement${where}; remove it, or move it before the return`;
+      case 'BREAK':
+      case 'CONTINUE':
+        return `It follows the '${previous.type.toLowerCase()}'${where}; remove it, or move it before the ${previous.type.toLowerCase()}`;
+      case 'GOTO':
+        return `It follows 'goto ${previous.value}'${where} and has no label to jump to; remove it, or label it`;
+    }
+    if (NO_RETURN_FUNCTIONS.includes(call)) {
+      return `It follows the call to '${call}'${where}, which does not return; remove it`;
     }
-    return '';
+    if (previous && LOOP_STATEMENTS.includes(previous.type)) {
+      return `Control never leaves the loop${where}, so nothing after it runs; add a break or fix the loop condition`;
+    }
+    if (!previous && parent.type === 'SWITCH_BODY') {
+      return "Statements in a switch before its first 'case' label are skipped; move it into a case";
+    }
+    return previous
+      ? `Every path through the statement${where} returns or jumps elsewhere; remove the code after it`
+      : `No path from the start of '${functionName}' reaches it; remove it`;
   }
   
   // Complexity Analysis
-  private static estimateComplexity(parseTree: ParseTreeNode, controlFlow: ControlFlowNode | null): ComplexityInfo | null {
+  private static estimateComplexity(
+    parseTree: ParseTreeNode,
+    controlFlow: ControlFlowGraph[],
+    scopes: VariableScope[]
+  ): ComplexityInfo | null {
     // This is a very simplified complexity analysis
     // In a real implementation, we would do a much more thorough analysis
     
-    // If we don't have a parse tree or control flow, we can't analyze complexity
-    if (!parseTree || !controlFlow) {
+    // If we don't have a parse tree or any function, we can't analyze complexity
+    if (!parseTree || controlFlow.length === 0) {
       return null;
     }
     
@@ -878,7 +845,7 @@ export class CompilerService {
       });
     }
     
-    if (this.hasUnusedVariables(parseTree)) {
+    if (this.hasUnusedVariables(scopes)) {
       suggestions.push({
         title: 'Remove unused variables',
         description: 'Unused variables consume memory unnecessarily. Consider removing them to optimize space usage.'
@@ -904,7 +871,7 @@ export class CompilerService {
     
     const checkNode = (n: ParseTreeNode, inLoop: boolean): boolean => {
       // Check if this node is a loop
-      const isLoop = n.type === 'FOR_STATEMENT' || n.type === 'WHILE_STATEMENT';
+      const isLoop = LOOP_STATEMENTS.includes(n.type);
       
       // If we're already in a loop and find another, we have nesting
       if (inLoop && isLoop) {
@@ -929,7 +896,7 @@ export class CompilerService {
     let count = 0;
     
     const checkNode = (n: ParseTreeNode) => {
-      if (n.type === 'FOR_STATEMENT' || n.type === 'WHILE_STATEMENT') {
+      if (LOOP_STATEMENTS.includes(n.type)) {
         count++;
       }
       
@@ -1004,10 +971,10 @@ export class CompilerService {
     return count;
   }
   
-  // Helper to check for unused variables
-  private static hasUnusedVariables(node: ParseTreeNode): boolean {
-    // This would need to cross-reference declarations with usages
-    // For this simulation, we'll just return false
-    return false;
+  // Helper to check for local variables that are never read, as reported by checkForUnusedVariables
+  private static hasUnusedVariables(scopes: VariableScope[]): boolean {
+    const hasUnused = (scope: VariableScope): boolean =>
+      scope.variables.some(variable => !variable.used && !variable.isParameter) || scope.children.some(hasUnused);
+    return scopes.some(scope => scope.children.some(hasUnused));
   }
 }
\ No newline at end of file
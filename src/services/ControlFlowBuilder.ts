@@ -0,0 +1,385 @@
+import { BasicBlock, ControlFlowEdge, ControlFlowEdgeKind, ControlFlowGraph, ParseTreeNode } from '../types/compiler';
+import { NO_RETURN_FUNCTIONS } from './library';
+import { formatExpression } from './Parser';
+
+// Blocks that jump to a loop or switch's exit or to a loop's next iteration, connected once the
+// target block exists
+interface JumpTarget {
+  isLoop: boolean;
+  breaks: BasicBlock[];
+  continues: BasicBlock[];
+}
+
+// Edge still to be drawn into the block where paths join
+interface Path {
+  from: BasicBlock;
+  kind: ControlFlowEdgeKind;
+  label?: string;
+}
+
+// Helper to write a statement as it is shown in a basic block
+const describeStatement = (node: ParseTreeNode): string => {
+  switch (node.type) {
+    case 'VARIABLE_DECLARATION': {
+      const [typeNode, nameNode, initializer] = node.children;
+      return `${typeNode.value} ${nameNode?.value ?? ''}${initializer ? ` = ${formatExpression(initializer)}` : ''}`;
+    }
+    case 'EXPRESSION_STATEMENT':
+      return formatExpression(node.children[0]);
+    case 'RETURN':
+      return node.children[0] ? `return ${formatExpression(node.children[0])}` : 'return';
+    case 'GOTO':
+      return `goto ${node.value}`;
+    case 'BREAK':
+    case 'CONTINUE':
+      return node.type.toLowerCase();
+    default:
+      return formatExpression(node);
+  }
+};
+
+// Builds the control flow graph of a function: its statements grouped into basic blocks, with an
+// edge for every way control can pass from one block to another. Every condition ends a block,
+// and the code after an if/else or a loop starts a new one where the paths join.
+export class ControlFlowBuilder {
+  private readonly evaluate: (node: ParseTreeNode) => number | null;
+  private blocks: BasicBlock[] = [];
+  private edges: ControlFlowEdge[] = [];
+  // Block statements are being added to, or null after a jump until the next reachable code
+  private current: BasicBlock | null = null;
+  private exit!: BasicBlock;
+  private targets: JumpTarget[] = [];
+  private labels = new Map<string, BasicBlock>();
+  private gotos: { from: BasicBlock, label: string }[] = [];
+  
+  // `evaluate` folds integer constant expressions, to tell loops that never end by their condition
+  constructor(evaluate: (node: ParseTreeNode) => number | null) {
+    this.evaluate = evaluate;
+  }
+  
+  // Dominance and dataflow are left to analyzeDominance and DataflowAnalyzer
+  build(functionNode: ParseTreeNode): Omit<ControlFlowGraph, 'dominance' | 'dataflow'> {
+    this.blocks = [];
+    this.edges = [];
+    this.targets = [];
+    this.labels = new Map();
+    this.gotos = [];
+    
+    const entry: BasicBlock = { id: 'entry', kind: 'entry', statements: [], reachable: false };
+    this.blocks.push(entry);
+    this.exit = { id: 'exit', kind: 'exit', statements: [], reachable: false };
+    this.current = this.addBlock();
+    this.connect(entry, this.current, 'fallthrough');
+    
+    const body = functionNode.children.find(child => child.type === 'FUNCTION_BODY');
+    this.statements(body?.children ?? []);
+    this.jump(this.exit, 'fallthrough');
+    
+    // Blocks are numbered in source order, so a goto to an earlier block jumps back
+    this.gotos.forEach(({ from, label }) => {
+      const target = this.labels.get(label);
+      if (!target) return;
+      const kind = this.blocks.indexOf(target) <= this.blocks.indexOf(from) ? 'back' : 'fallthrough';
+      this.connect(from, target, kind, `goto ${label}`);
+    });
+    this.blocks.push(this.exit);
+    
+    // Blocks left without a path from the entry follow a jump or sit behind a constant condition
+    const successors = new Map<string, BasicBlock[]>(this.blocks.map(block => [block.id, []]));
+    const byId = new Map(this.blocks.map(block => [block.id, block]));
+    this.edges.forEach(edge => successors.get(edge.from)!.push(byId.get(edge.to)!));
+    const pending = [entry];
+    entry.reachable = true;
+    while (pending.length > 0) {
+      successors.get(pending.pop()!.id)!.forEach(next => {
+        if (next.reachable) return;
+        next.reachable = true;
+        pending.push(next);
+      });
+    }
+    
+    return {
+      functionName: functionNode.children[1].value!,
+      entry: entry.id,
+      exit: this.exit.id,
+      blocks: this.blocks,
+      edges: this.edges
+    };
+  }
+  
+  private statements(nodes: ParseTreeNode[]): void {
+    nodes.forEach(node => this.statement(node));
+  }
+  
+  private statement(node: ParseTreeNode): void {
+    switch (node.type) {
+      case 'VARIABLE_DECLARATION':
+        this.append(node);
+        return;
+      case 'EXPRESSION_STATEMENT': {
+        this.append(node);
+        const call = node.children[0];
+        if (call?.type === 'FUNCTION_CALL' && NO_RETURN_FUNCTIONS.includes(call.children[0].value ?? '')) {
+          this.jump(this.exit, 'exit', call.children[0].value);
+        }
+        return;
+      }
+      case 'RETURN':
+        this.append(node);
+        this.jump(this.exit, 'exit');
+        return;
+      case 'BREAK':
+        this.append(node);
+        this.pendingJump(this.targets[this.targets.length - 1]?.breaks);
+        return;
+      case 'CONTINUE':
+        this.append(node);
+        this.pendingJump([...this.targets].reverse().find(target => target.isLoop)?.continues);
+        return;
+      case 'GOTO': {
+        const from = this.append(node);
+        this.gotos.push({ from, label: node.value! });
+        this.current = null;
+        return;
+      }
+      case 'LABELED_STATEMENT': {
+        const block = this.startBlock(`${node.value}:`);
+        this.labels.set(node.value!, block);
+        this.statements(node.children);
+        return;
+      }
+      case 'IF_STATEMENT':
+        this.ifStatement(node);
+        return;
+      case 'WHILE_STATEMENT':
+        this.whileStatement(node);
+        return;
+      case 'DO_WHILE_STATEMENT':
+        this.doWhileStatement(node);
+        return;
+      case 'FOR_STATEMENT':
+        this.forStatement(node);
+        return;
+      case 'SWITCH_STATEMENT':
+        this.switchStatement(node);
+        return;
+      case 'FUNCTION_PROTOTYPE':
+      case 'STRUCT_DEFINITION':
+      case 'UNION_DEFINITION':
+      case 'ENUM_DEFINITION':
+      case 'TYPEDEF':
+      case 'ERROR':
+        return;
+      default:
+        // Blocks and bodies
+        this.statements(node.children);
+    }
+  }
+  
+  private ifStatement(node: ParseTreeNode): void {
+    const [condition, body, otherwise] = node.children;
+    const test = this.branch(condition, 'if');
+    // A constant condition only ever takes one branch; the other is left without an edge
+    const value = this.conditionValue(condition);
+    
+    this.current = this.addBlock();
+    if (value !== 0) this.connect(test, this.current, 'true');
+    this.statement(body);
+    const bodyEnd = this.current;
+    
+    // Without an else, the false branch goes straight to the join
+    let otherwiseEnd: Path | null = value === null || value === 0 ? { from: test, kind: 'false' } : null;
+    if (otherwise) {
+      this.current = this.addBlock();
+      if (value === null || value === 0) this.connect(test, this.current, 'false');
+      this.statement(otherwise);
+      otherwiseEnd = this.current && { from: this.current, kind: 'fallthrough' };
+    }
+    
+    this.join([bodyEnd && { from: bodyEnd, kind: 'fallthrough' }, otherwiseEnd]);
+  }
+  
+  private whileStatement(node: ParseTreeNode): void {
+    const [condition, body] = node.children;
+    const header = this.startBlock('while');
+    this.branch(condition);
+    
+    const target = this.loopBody(header, body);
+    if (this.current) this.connect(this.current, header, 'back');
+    target.continues.forEach(from => this.connect(from, header, 'back', 'continue'));
+    this.exitLoop(header, condition, target);
+  }
+  
+  private doWhileStatement(node: ParseTreeNode): void {
+    const [body, condition] = node.children;
+    const start = this.startBlock('do');
+    const target: JumpTarget = { isLoop: true, breaks: [], continues: [] };
+    this.targets.push(target);
+    this.statement(body);
+    this.targets.pop();
+    
+    // The condition is tested after the body, and continue jumps to it
+    const test = this.addBlock('do-while condition');
+    if (this.current) this.connect(this.current, test, 'fallthrough');
+    target.continues.forEach(from => this.connect(from, test, 'fallthrough', 'continue'));
+    this.current = test;
+    this.branch(condition);
+    if (this.conditionValue(condition) !== 0) this.connect(test, start, 'back', 'true');
+    this.exitLoop(test, condition, target);
+  }
+  
+  private forStatement(node: ParseTreeNode): void {
+    const [init, condition, update, body] = node.children;
+    init.children.forEach(child => this.append(child));
+    const header = this.startBlock('for');
+    if (condition.children.length > 0) this.branch(condition);
+    
+    const target = this.loopBody(header, body);
+    
+    // continue runs the update before the next test; without an update it goes straight back
+    if (update.children.length > 0) {
+      const step = this.addBlock('for update');
+      if (this.current) this.connect(this.current, step, 'fallthrough');
+      target.continues.forEach(from => this.connect(from, step, 'fallthrough', 'continue'));
+      update.children.forEach(child => step.statements.push({ node: child, text: formatExpression(child) }));
+      this.connect(step, header, 'back');
+    } else {
+      if (this.current) this.connect(this.current, header, 'back');
+      target.continues.forEach(from => this.connect(from, header, 'back', 'continue'));
+    }
+    this.exitLoop(header, condition, target);
+  }
+  
+  private switchStatement(node: ParseTreeNode): void {
+    const [condition, body] = node.children;
+    const test = this.branch(condition, 'switch');
+    const target: JumpTarget = { isLoop: false, breaks: [], continues: [] };
+    this.targets.push(target);
+    
+    // Each clause is entered from the switch and by falling through from the clause above;
+    // statements before the first label are never reached
+    this.current = null;
+    body.children.forEach(clause => {
+      if (clause.type !== 'CASE' && clause.type !== 'DEFAULT') {
+        this.statement(clause);
+        return;
+      }
+      const label = clause.type === 'CASE' ? `case ${clause.value}` : 'default';
+      const block = this.startBlock(label);
+      this.connect(test, block, 'case', label);
+      this.statements(clause.type === 'CASE' ? clause.children.slice(1) : clause.children);
+    });
+    this.targets.pop();
+    
+    const hasDefault = body.children.some(clause => clause.type === 'DEFAULT');
+    this.join([
+      this.current && { from: this.current, kind: 'fallthrough' },
+      hasDefault ? null : { from: test, kind: 'case', label: 'no match' },
+      ...this.breaks(target)
+    ]);
+  }
+  
+  // Helpers
+  
+  // Helper to walk a loop body from the block after the loop's test
+  private loopBody(header: BasicBlock, body: ParseTreeNode): JumpTarget {
+    const target: JumpTarget = { isLoop: true, breaks: [], continues: [] };
+    this.current = this.addBlock();
+    // A condition that is always false never enters the body
+    if (!header.condition) {
+      this.connect(header, this.current, 'fallthrough');
+    } else if (this.evaluate(header.condition.node) !== 0) {
+      this.connect(header, this.current, 'true');
+    }
+    this.targets.push(target);
+    this.statement(body);
+    this.targets.pop();
+    return target;
+  }
+  
+  // The code after a loop is reached when the condition is false, unless it is always true, and by break
+  private exitLoop(test: BasicBlock, condition: ParseTreeNode, target: JumpTarget): void {
+    const value = condition.children[0] ? this.conditionValue(condition) : 1;
+    this.join([
+      value === null || value === 0 ? { from: test, kind: 'false' } : null,
+      ...this.breaks(target)
+    ]);
+  }
+  
+  // Value of a CONDITION node's expression if it is constant, or null
+  private conditionValue(condition: ParseTreeNode): number | null {
+    const expression = condition.children[0];
+    return expression ? this.evaluate(expression) : null;
+  }
+  
+  // Helper to end the current block with the condition of a CONDITION node
+  private branch(condition: ParseTreeNode, label?: string): BasicBlock {
+    const block = this.current && !this.current.condition ? this.current : this.startBlock(label);
+    if (label && !block.label) block.label = label;
+    
+    const expression = condition.children[0];
+    if (expression) block.condition = { node: expression, text: formatExpression(expression) };
+    return block;
+  }
+  
+  private breaks(target: JumpTarget): Path[] {
+    return target.breaks.map(from => ({ from, kind: 'exit', label: 'break' }));
+  }
+  
+  // Helper to continue in a new block where the given paths meet, or nowhere if none reach it
+  private join(paths: (Path | null)[]): void {
+    const incoming = paths.filter((path): path is Path => path !== null);
+    if (incoming.length === 0) {
+      this.current = null;
+      return;
+    }
+    
+    const block = this.addBlock();
+    incoming.forEach(({ from, kind, label }) => this.connect(from, block, kind, label));
+    this.current = block;
+  }
+  
+  private append(node: ParseTreeNode): BasicBlock {
+    // Code after a jump starts a block that nothing leads to
+    const block = this.current ?? this.addBlock();
+    block.statements.push({ node, text: describeStatement(node) });
+    this.current = block;
+    return block;
+  }
+  
+  // Helper to start a block that can be jumped to, such as a loop header or a label
+  private startBlock(label?: string): BasicBlock {
+    // An empty block just opened, such as the join after an if, can be that block itself
+    const current = this.current;
+    if (current && current.statements.length === 0 && !current.condition && !current.label) {
+      if (label) current.label = label;
+      return current;
+    }
+    
+    const block = this.addBlock(label);
+    if (this.current) this.connect(this.current, block, 'fallthrough');
+    this.current = block;
+    return block;
+  }
+  
+  private jump(target: BasicBlock, kind: ControlFlowEdgeKind, label?: string): void {
+    if (this.current) this.connect(this.current, target, kind, label);
+    this.current = null;
+  }
+  
+  private pendingJump(sources: BasicBlock[] | undefined): void {
+    if (this.current && sources) sources.push(this.current);
+    this.current = null;
+  }
+  
+  private addBlock(label?: string): BasicBlock {
+    const block: BasicBlock = { id: `B${this.blocks.length}`, kind: 'block', statements: [], reachable: false };
+    if (label) block.label = label;
+    this.blocks.push(block);
+    return block;
+  }
+  
+  private connect(from: BasicBlock, to: BasicBlock, kind: ControlFlowEdgeKind, label?: string): void {
+    this.edges.push(label ? { from: from.id, to: to.id, kind, label } : { from: from.id, to: to.id, kind });
+  }
+}
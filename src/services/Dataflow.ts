@@ -0,0 +1,364 @@
+import { ControlFlowGraph, DataflowFact, DataflowResult, DataflowStep, DeclaredSymbol, ParseTreeNode } from '../types/compiler';
+import { formatExpression } from './Parser';
+
+// The graph the analyses run over, before its own analyses are attached
+type FlowGraph = Omit<ControlFlowGraph, 'dominance' | 'dataflow'>;
+
+// A gen/kill dataflow problem. Each block passes on gen ∪ (value − kill), where its value is the
+// meet of what its predecessors (forward) or successors (backward) pass on, and nothing at the
+// entry or exit.
+export interface DataflowProblem {
+  name: DataflowResult['name'];
+  direction: 'forward' | 'backward';
+  meet: 'union' | 'intersection';
+  facts: DataflowFact[];
+  gen: Map<string, Set<string>>;
+  kill: Map<string, Set<string>>;
+}
+
+// What evaluating a statement or condition does, in evaluation order
+type Effect =
+  | { kind: 'use', variable: ParseTreeNode }
+  | { kind: 'define', variable: ParseTreeNode, node: ParseTreeNode }
+  | { kind: 'compute', text: string, variables: ParseTreeNode[] };
+
+const INCREMENTS = ['++', '--'];
+
+// Operators whose result depends only on their operands, so an expression built from them can be reused
+const PURE_OPERATORS = new Set(['+', '-', '*', '/', '%', '<<', '>>', '&', '|', '^', '<', '>', '<=', '>=', '==', '!=']);
+
+// Solves a problem with the worklist algorithm: every block is queued once in flow order, and a
+// block whose result changes queues the blocks its result flows into, until nothing changes.
+// Before its first visit a block passes on nothing for a union and every fact for an intersection.
+export const solveDataflow = (graph: FlowGraph, problem: DataflowProblem): DataflowResult => {
+  const forward = problem.direction === 'forward';
+  const ids = graph.blocks.map(block => block.id);
+  const successors = new Map<string, string[]>(ids.map(id => [id, []]));
+  const predecessors = new Map<string, string[]>(ids.map(id => [id, []]));
+  graph.edges.forEach(edge => {
+    successors.get(edge.from)!.push(edge.to);
+    predecessors.get(edge.to)!.push(edge.from);
+  });
+  const sources = forward ? predecessors : successors;
+  const targets = forward ? successors : predecessors;
+  const boundary = forward ? graph.entry : graph.exit;
+  
+  const universe = problem.facts.map(fact => fact.id);
+  const ordered = (facts: Set<string>) => universe.filter(fact => facts.has(fact));
+  const meet = (a: Set<string>, b: Set<string>) => problem.meet === 'union'
+    ? new Set([...a, ...b])
+    : new Set([...a].filter(fact => b.has(fact)));
+  
+  // Value a block starts from, and what it passes on: IN and OUT for a forward problem, OUT and IN for a backward one
+  const value = new Map<string, Set<string>>(ids.map(id => [id, new Set()]));
+  const result = new Map<string, Set<string>>(ids.map(id => [id, new Set(problem.meet === 'union' ? [] : universe)]));
+  const snapshot = (sets: Map<string, Set<string>>) => Object.fromEntries(ids.map(id => [id, ordered(sets.get(id)!)]));
+  const initial = forward
+    ? { in: snapshot(value), out: snapshot(result) }
+    : { in: snapshot(result), out: snapshot(value) };
+  
+  const worklist = forward ? [...ids] : [...ids].reverse();
+  const steps: DataflowStep[] = [];
+  while (worklist.length > 0) {
+    const id = worklist.shift()!;
+    const from = id === boundary ? [] : sources.get(id)!;
+    const start = from.length === 0 ? new Set<string>() : from.map(source => result.get(source)!).reduce(meet);
+    const kill = problem.kill.get(id)!;
+    const next = new Set([...problem.gen.get(id)!, ...[...start].filter(fact => !kill.has(fact))]);
+    const previous = result.get(id)!;
+    const changed = next.size !== previous.size || [...next].some(fact => !previous.has(fact));
+    
+    value.set(id, start);
+    result.set(id, next);
+    if (changed) {
+      targets.get(id)!.forEach(target => {
+        if (!worklist.includes(target)) worklist.push(target);
+      });
+    }
+    steps.push({
+      block: id,
+      in: ordered(forward ? start : next),
+      out: ordered(forward ? next : start),
+      changed,
+      worklist: [...worklist]
+    });
+  }
+  
+  return {
+    name: problem.name,
+    direction: problem.direction,
+    meet: problem.meet,
+    facts: problem.facts,
+    gen: Object.fromEntries(ids.map(id => [id, ordered(problem.gen.get(id)!)])),
+    kill: Object.fromEntries(ids.map(id => [id, ordered(problem.kill.get(id)!)])),
+    initial,
+    steps,
+    in: snapshot(forward ? value : result),
+    out: snapshot(forward ? result : value)
+  };
+};
+
+// Sets up reaching definitions, live variables and available expressions for a function's
+// parameters and local variables. Globals, and stores through pointers such as scanf's, are
+// not tracked, and function calls are assumed to change nothing the analyses track.
+export class DataflowAnalyzer {
+  private readonly references: Map<string, DeclaredSymbol>;
+  // Declarations of the tracked variables, with the name each is shown by
+  private variables = new Map<ParseTreeNode, string>();
+  
+  // `references` maps identifier nodes to their declarations
+  constructor(references: Map<string, DeclaredSymbol>) {
+    this.references = references;
+  }
+  
+  analyze(functionNode: ParseTreeNode, graph: FlowGraph): DataflowResult[] {
+    const declarations: ParseTreeNode[] = [];
+    const collect = (node: ParseTreeNode) => {
+      if ((node.type === 'PARAMETER' || node.type === 'VARIABLE_DECLARATION') && node.children[1]) declarations.push(node);
+      node.children.forEach(collect);
+    };
+    collect(functionNode);
+    
+    // Variables sharing a name in different scopes are told apart by the line they are declared on,
+    // and by the column as well when they are declared on the same line
+    const name = (declaration: ParseTreeNode) => declaration.children[1].value!;
+    const line = (declaration: ParseTreeNode) => `${name(declaration)}@${declaration.span.start.line}`;
+    const counts = new Map<string, number>();
+    declarations.forEach(declaration => [name(declaration), line(declaration)].forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1)));
+    this.variables = new Map(declarations.map(declaration => {
+      if (counts.get(name(declaration))! === 1) return [declaration, name(declaration)];
+      if (counts.get(line(declaration))! === 1) return [declaration, line(declaration)];
+      return [declaration, `${line(declaration)}:${declaration.span.start.column}`];
+    }));
+    
+    const effects = new Map(graph.blocks.map(block => {
+      const list: Effect[] = [];
+      [...block.statements, ...(block.condition ? [block.condition] : [])].forEach(statement => this.effects(statement.node, list));
+      return [block.id, list];
+    }));
+    const parameters = declarations.filter(declaration => declaration.type === 'PARAMETER');
+    
+    return [
+      solveDataflow(graph, this.reachingDefinitions(graph, effects, parameters)),
+      solveDataflow(graph, this.liveVariables(graph, effects)),
+      solveDataflow(graph, this.availableExpressions(graph, effects))
+    ];
+  }
+  
+  // Definitions d1, d2, ... in block order, each generated where it happens and killing the
+  // other definitions of its variable. Parameters are defined in the entry block.
+  private reachingDefinitions(graph: FlowGraph, effects: Map<string, Effect[]>, parameters: ParseTreeNode[]): DataflowProblem {
+    const facts: DataflowFact[] = [];
+    const definitions = new Map<ParseTreeNode, string[]>();
+    const define = (variable: ParseTreeNode, description: string) => {
+      const id = `d${facts.length + 1}`;
+      facts.push({ id, description });
+      if (!definitions.has(variable)) definitions.set(variable, []);
+      definitions.get(variable)!.push(id);
+      return id;
+    };
+    
+    // Every definition is numbered first, since a block kills the definitions of its variables in other blocks
+    const defined = new Map<string, { id: string, variable: ParseTreeNode }[]>(graph.blocks.map(block => {
+      if (block.id === graph.entry) {
+        return [block.id, parameters.map(parameter => ({
+          id: define(parameter, `${this.variables.get(parameter)} (parameter)`),
+          variable: parameter
+        }))];
+      }
+      return [block.id, effects.get(block.id)!
+        .filter(effect => effect.kind === 'define')
+        .map(effect => ({
+          id: define(effect.variable, `${this.describeDefinition(effect.node)}, line ${effect.node.span.start.line} in ${block.id}`),
+          variable: effect.variable
+        }))];
+    }));
+    
+    const gen = new Map<string, Set<string>>();
+    const kill = new Map<string, Set<string>>();
+    defined.forEach((list, id) => {
+      const generated = new Set<string>();
+      const killed = new Set<string>();
+      list.forEach(definition => {
+        definitions.get(definition.variable)!.forEach(other => {
+          generated.delete(other);
+          if (other !== definition.id) killed.add(other);
+        });
+        generated.add(definition.id);
+      });
+      gen.set(id, generated);
+      kill.set(id, killed);
+    });
+    
+    return { name: 'Reaching definitions', direction: 'forward', meet: 'union', facts, gen, kill };
+  }
+  
+  // A variable is used in a block if it is read before the block assigns it, and defined if assigned
+  private liveVariables(graph: FlowGraph, effects: Map<string, Effect[]>): DataflowProblem {
+    const gen = new Map<string, Set<string>>();
+    const kill = new Map<string, Set<string>>();
+    graph.blocks.forEach(block => {
+      const used = new Set<string>();
+      const defined = new Set<string>();
+      effects.get(block.id)!.forEach(effect => {
+        if (effect.kind === 'compute') return;
+        const variable = this.variables.get(effect.variable)!;
+        if (effect.kind === 'use' && !defined.has(variable)) used.add(variable);
+        if (effect.kind === 'define') defined.add(variable);
+      });
+      gen.set(block.id, used);
+      kill.set(block.id, defined);
+    });
+    
+    const facts = [...this.variables].map(([declaration, variable]) => ({
+      id: variable,
+      description: `${declaration.children[0].value} ${declaration.children[1].value}, declared on line ${declaration.span.start.line}`
+    }));
+    return { name: 'Live variables', direction: 'backward', meet: 'union', facts, gen, kill };
+  }
+  
+  // An expression is generated where it is computed and killed by assigning any of its variables
+  private availableExpressions(graph: FlowGraph, effects: Map<string, Effect[]>): DataflowProblem {
+    // Each expression with the variables it reads, and the expressions that read each variable
+    const expressions = new Map<string, ParseTreeNode[]>();
+    const readers = new Map<ParseTreeNode, Set<string>>();
+    effects.forEach(list => list.forEach(effect => {
+      if (effect.kind !== 'compute') return;
+      expressions.set(effect.text, effect.variables);
+      effect.variables.forEach(variable => {
+        if (!readers.has(variable)) readers.set(variable, new Set());
+        readers.get(variable)!.add(effect.text);
+      });
+    }));
+    
+    const gen = new Map<string, Set<string>>();
+    const kill = new Map<string, Set<string>>();
+    graph.blocks.forEach(block => {
+      const generated = new Set<string>();
+      const killed = new Set<string>();
+      effects.get(block.id)!.forEach(effect => {
+        if (effect.kind === 'compute') {
+          generated.add(effect.text);
+        } else if (effect.kind === 'define') {
+          readers.get(effect.variable)?.forEach(text => {
+            generated.delete(text);
+            killed.add(text);
+          });
+        }
+      });
+      gen.set(block.id, generated);
+      kill.set(block.id, killed);
+    });
+    
+    const facts = [...expressions].map(([text, variables]) => ({
+      id: text,
+      description: `Uses ${[...new Set(variables)].map(variable => this.variables.get(variable)).join(', ')}`
+    }));
+    return { name: 'Available expressions', direction: 'forward', meet: 'intersection', facts, gen, kill };
+  }
+  
+  // Helper to list what evaluating a node does, operands before the operation
+  private effects(node: ParseTreeNode, list: Effect[]): void {
+    const [first, second] = node.children;
+    
+    switch (node.type) {
+      case 'IDENTIFIER': {
+        const variable = this.variableOf(node);
+        if (variable) list.push({ kind: 'use', variable });
+        return;
+      }
+      case 'VARIABLE_DECLARATION': {
+        const initializer = node.children[2];
+        if (!initializer) return;
+        this.effects(initializer, list);
+        if (this.variables.has(node)) list.push({ kind: 'define', variable: node, node });
+        return;
+      }
+      case 'ASSIGNMENT': {
+        const variable = this.variableOf(first);
+        if (!variable) {
+          this.effects(first, list);
+        } else if (node.value !== '=') {
+          list.push({ kind: 'use', variable });
+        }
+        this.effects(second, list);
+        if (variable) list.push({ kind: 'define', variable, node });
+        return;
+      }
+      case 'UNARY_EXPRESSION':
+      case 'POSTFIX_EXPRESSION': {
+        const variable = this.variableOf(first);
+        if (INCREMENTS.includes(node.value ?? '') && variable) {
+          list.push({ kind: 'use', variable }, { kind: 'define', variable, node });
+          return;
+        }
+        break;
+      }
+      case 'ADDRESS_OF':
+        // Taking an address neither reads nor writes the variable
+        if (this.variableOf(first)) return;
+        break;
+      case 'SIZEOF_EXPRESSION':
+        // The operand of sizeof is not evaluated
+        return;
+      case 'MEMBER_ACCESS':
+        // The member name is not a variable
+        this.effects(first, list);
+        return;
+    }
+    
+    node.children.forEach(child => this.effects(child, list));
+    
+    if (node.type === 'BINARY_EXPRESSION' && PURE_OPERATORS.has(node.value ?? '')) {
+      const variables = this.operandsOf(node);
+      if (variables && variables.length > 0) list.push({ kind: 'compute', text: this.describeExpression(node), variables });
+    }
+  }
+  
+  // The tracked variables an expression reads, or null if it reads anything else or has side effects
+  private operandsOf(node: ParseTreeNode): ParseTreeNode[] | null {
+    switch (node.type) {
+      case 'NUMBER':
+      case 'CHAR':
+        return [];
+      case 'IDENTIFIER': {
+        const variable = this.variableOf(node);
+        return variable ? [variable] : null;
+      }
+      case 'BINARY_EXPRESSION':
+      case 'UNARY_EXPRESSION': {
+        if (node.type === 'BINARY_EXPRESSION' ? !PURE_OPERATORS.has(node.value ?? '') : !['-', '!', '~'].includes(node.value ?? '')) {
+          return null;
+        }
+        const operands = node.children.map(child => this.operandsOf(child));
+        return operands.some(variables => variables === null) ? null : operands.flat() as ParseTreeNode[];
+      }
+      default:
+        return null;
+    }
+  }
+  
+  private variableOf(node: ParseTreeNode): ParseTreeNode | undefined {
+    if (node.type !== 'IDENTIFIER') return undefined;
+    const declaration = this.references.get(node.id)?.declaration;
+    return declaration && this.variables.has(declaration) ? declaration : undefined;
+  }
+  
+  // Helper to write an expression with its variables named as the analyses show them, so that
+  // expressions reading different variables of the same name are different facts
+  private describeExpression(node: ParseTreeNode): string {
+    const rename = (child: ParseTreeNode): ParseTreeNode => {
+      const variable = this.variableOf(child);
+      return variable
+        ? { ...child, value: this.variables.get(variable) }
+        : { ...child, children: child.children.map(rename) };
+    };
+    return formatExpression(rename(node));
+  }
+  
+  // Helper to write a definition the way it appears in the code
+  private describeDefinition(node: ParseTreeNode): string {
+    if (node.type !== 'VARIABLE_DECLARATION') return formatExpression(node);
+    return `${this.variables.get(node)} = ${formatExpression(node.children[2])}`;
+  }
+}
@@ -0,0 +1,307 @@
+import { CompilerError, DeclaredSymbol, ParseTreeNode } from '../types/compiler';
+import { isArithmeticType, isPointerType, resolveTypedefs } from './ctypes';
+import { NO_RETURN_FUNCTIONS } from './library';
+
+// Declarations of the variables definitely assigned at a point, or null where control cannot reach
+type State = Set<ParseTreeNode> | null;
+
+// Where a break or continue goes, with the states that jump there
+interface JumpTarget {
+  isLoop: boolean;
+  breaks: State[];
+  continues: State[];
+}
+
+// Helper to merge the states of two paths that meet: a variable is assigned only if it is on both
+const join = (a: State, b: State): State => {
+  if (a === null) return b;
+  if (b === null) return a;
+  return new Set([...a].filter(declaration => b.has(declaration)));
+};
+
+// Definite assignment analysis of local variables, as in C compilers' "may be used uninitialized"
+// warnings. Each function body is walked once in execution order while tracking which variables
+// are assigned on every path. A loop body only sees the assignments made before the loop, which
+// is all that holds on its first iteration.
+export class DefiniteAssignment {
+  private readonly typedefs: Map<string, string>;
+  private readonly references: Map<string, DeclaredSymbol>;
+  private readonly evaluate: (node: ParseTreeNode) => number | null;
+  // Local scalar variables declared without an initializer
+  private tracked = new Set<ParseTreeNode>();
+  private reported = new Set<ParseTreeNode>();
+  private state: State = null;
+  private targets: JumpTarget[] = [];
+  private errors: CompilerError[] = [];
+  
+  // `references` maps identifier nodes to their declarations, and `evaluate` folds integer constant expressions
+  constructor(
+    typedefs: Map<string, string>,
+    references: Map<string, DeclaredSymbol>,
+    evaluate: (node: ParseTreeNode) => number | null
+  ) {
+    this.typedefs = typedefs;
+    this.references = references;
+    this.evaluate = evaluate;
+  }
+  
+  check(parseTree: ParseTreeNode): CompilerError[] {
+    this.tracked = new Set();
+    this.reported = new Set();
+    this.errors = [];
+    
+    parseTree.children
+      .filter(node => node.type === 'FUNCTION_DECLARATION')
+      .forEach(functionNode => {
+        const body = functionNode.children.find(child => child.type === 'FUNCTION_BODY');
+        if (!body) return;
+        
+        this.state = new Set();
+        this.targets = [];
+        this.statements(body.children);
+      });
+    
+    return this.errors;
+  }
+  
+  // Statements
+  
+  private statements(nodes: ParseTreeNode[]): void {
+    nodes.forEach(node => this.statement(node));
+  }
+  
+  private statement(node: ParseTreeNode): void {
+    switch (node.type) {
+      case 'VARIABLE_DECLARATION': {
+        const [typeNode, , initializer] = node.children;
+        if (initializer) {
+          this.expression(initializer);
+          this.assign(node);
+        } else if (this.isTracked(typeNode.value!)) {
+          this.tracked.add(node);
+        }
+        return;
+      }
+      case 'EXPRESSION_STATEMENT': {
+        node.children.forEach(child => this.expression(child));
+        const call = node.children[0];
+        if (call?.type === 'FUNCTION_CALL' && NO_RETURN_FUNCTIONS.includes(call.children[0].value ?? '')) {
+          this.state = null;
+        }
+        return;
+      }
+      case 'IF_STATEMENT': {
+        const [condition, body, otherwise] = node.children;
+        this.condition(condition);
+        const afterCondition = this.state;
+        this.statement(body);
+        const afterBody = this.state;
+        this.state = afterCondition;
+        if (otherwise) this.statement(otherwise);
+        this.state = join(afterBody, this.state);
+        return;
+      }
+      case 'WHILE_STATEMENT': {
+        const [condition, body] = node.children;
+        this.condition(condition);
+        const exit = this.runsForever(condition) ? null : this.state;
+        const { breaks } = this.loop(body);
+        this.state = [exit, ...breaks].reduce(join, null);
+        return;
+      }
+      case 'DO_WHILE_STATEMENT': {
+        const [body, condition] = node.children;
+        const { breaks, continues } = this.loop(body);
+        this.state = [this.state, ...continues].reduce(join, null);
+        this.condition(condition);
+        const exit = this.runsForever(condition) ? null : this.state;
+        this.state = [exit, ...breaks].reduce(join, null);
+        return;
+      }
+      case 'FOR_STATEMENT': {
+        const [init, condition, update, body] = node.children;
+        init.children.forEach(child => child.type === 'VARIABLE_DECLARATION' ? this.statement(child) : this.expression(child));
+        this.condition(condition);
+        const exit = this.runsForever(condition) ? null : this.state;
+        const { breaks, continues } = this.loop(body);
+        this.state = [this.state, ...continues].reduce(join, null);
+        update.children.forEach(child => this.expression(child));
+        this.state = [exit, ...breaks].reduce(join, null);
+        return;
+      }
+      case 'SWITCH_STATEMENT': {
+        const [condition, body] = node.children;
+        this.condition(condition);
+        const entry = this.state;
+        const target: JumpTarget = { isLoop: false, breaks: [], continues: [] };
+        this.targets.push(target);
+        
+        // Statements before the first label cannot be reached; each label is reached from the
+        // switch and by falling through from the clause above
+        this.state = null;
+        body.children.forEach(clause => {
+          if (clause.type === 'CASE' || clause.type === 'DEFAULT') {
+            this.state = join(entry, this.state);
+            this.statements(clause.type === 'CASE' ? clause.children.slice(1) : clause.children);
+          } else {
+            this.statement(clause);
+          }
+        });
+        
+        this.targets.pop();
+        const hasDefault = body.children.some(clause => clause.type === 'DEFAULT');
+        this.state = [this.state, ...target.breaks, hasDefault ? null : entry].reduce(join, null);
+        return;
+      }
+      case 'BREAK':
+        this.targets[this.targets.length - 1]?.breaks.push(this.state);
+        this.state = null;
+        return;
+      case 'CONTINUE':
+        [...this.targets].reverse().find(target => target.isLoop)?.continues.push(this.state);
+        this.state = null;
+        return;
+      case 'RETURN':
+        node.children.forEach(child => this.expression(child));
+        this.state = null;
+        return;
+      case 'GOTO':
+        this.state = null;
+        return;
+      case 'LABELED_STATEMENT':
+        // The gotos that reach a label are not followed, so code after one is assumed to see every variable assigned
+        if (this.state === null) this.state = new Set(this.tracked);
+        this.statements(node.children);
+        return;
+      case 'FUNCTION_PROTOTYPE':
+      case 'STRUCT_DEFINITION':
+      case 'UNION_DEFINITION':
+      case 'ENUM_DEFINITION':
+      case 'TYPEDEF':
+      case 'ERROR':
+        return;
+      default:
+        this.statements(node.children);
+    }
+  }
+  
+  private condition(condition: ParseTreeNode): void {
+    condition.children.forEach(child => this.expression(child));
+  }
+  
+  // A missing condition, as in `for (;;)`, or a nonzero constant one never ends the loop
+  private runsForever(condition: ParseTreeNode): boolean {
+    const expression = condition.children[0];
+    if (!expression) return true;
+    const value = this.evaluate(expression);
+    return value !== null && value !== 0;
+  }
+  
+  // Helper to walk a loop body, collecting the breaks and continues that leave it
+  private loop(body: ParseTreeNode): JumpTarget {
+    const target: JumpTarget = { isLoop: true, breaks: [], continues: [] };
+    this.targets.push(target);
+    this.statement(body);
+    this.targets.pop();
+    return target;
+  }
+  
+  // Expressions
+  
+  private expression(node: ParseTreeNode): void {
+    const [first, second, third] = node.children;
+    
+    switch (node.type) {
+      case 'IDENTIFIER':
+        this.read(node);
+        return;
+      case 'ASSIGNMENT':
+        if (first.type !== 'IDENTIFIER') {
+          this.expression(first);
+        } else if (node.value !== '=') {
+          this.read(first);
+        }
+        this.expression(second);
+        if (first.type === 'IDENTIFIER') this.assign(first);
+        return;
+      case 'ADDRESS_OF':
+        // Whoever gets the address may store through it, as scanf does, so the variable counts as assigned
+        if (first.type === 'IDENTIFIER') {
+          this.assign(first);
+        } else {
+          this.expression(first);
+        }
+        return;
+      case 'SIZEOF_EXPRESSION':
+        // The operand of sizeof is not evaluated
+        return;
+      case 'BINARY_EXPRESSION':
+        if (node.value === '&&' || node.value === '||') {
+          // The right operand is only evaluated sometimes
+          this.expression(first);
+          const afterLeft = this.state;
+          this.expression(second);
+          this.state = join(afterLeft, this.state);
+          return;
+        }
+        break;
+      case 'CONDITIONAL_EXPRESSION': {
+        this.expression(first);
+        const afterCondition = this.state;
+        this.expression(second);
+        const afterTrue = this.state;
+        this.state = afterCondition;
+        this.expression(third);
+        this.state = join(afterTrue, this.state);
+        return;
+      }
+    }
+    
+    node.children.forEach(child => this.expression(child));
+  }
+  
+  // Helper to mark the variable declared by a declaration or named by an identifier as assigned
+  private assign(node: ParseTreeNode): void {
+    const declaration = node.type === 'IDENTIFIER' ? this.references.get(node.id)?.declaration : node;
+    if (!declaration || !this.tracked.has(declaration) || this.state === null || this.state.has(declaration)) return;
+    this.state = new Set(this.state).add(declaration);
+  }
+  
+  private read(node: ParseTreeNode): void {
+    const symbol = this.references.get(node.id);
+    const declaration = symbol?.declaration;
+    if (!symbol || !declaration || !this.tracked.has(declaration)) return;
+    if (this.state === null || this.state.has(declaration) || this.reported.has(declaration)) return;
+    
+    // Each variable is reported once, at its first read that may see no value
+    this.reported.add(declaration);
+    const [typeNode, nameNode] = declaration.children;
+    const { line, column } = node.span.start;
+    const neverAssigned = !symbol.variable?.assigned;
+    this.errors.push({
+      message: `Variable '${symbol.name}' ${neverAssigned ? 'is' : 'may be'} used uninitialized`,
+      line,
+      column,
+      severity: 'warning',
+      context: symbol.name,
+      suggestions: [
+        neverAssigned
+          ? `Assign '${symbol.name}' a value before reading it`
+          : `Assign '${symbol.name}' on every path that reaches line ${line}, or initialize it where it is declared`,
+        `Initialize it in its declaration, e.g. '${typeNode.value} ${symbol.name} = ${isPointerType(typeNode.value!) ? 'NULL' : '0'};'`
+      ],
+      related: [{
+        message: `'${symbol.name}' is declared here without an initializer`,
+        line: nameNode.span.start.line,
+        column: nameNode.span.start.column
+      }]
+    });
+  }
+  
+  // Static and extern variables start out zero; arrays and structs are assigned piecewise and not tracked
+  private isTracked(type: string): boolean {
+    if (/\b(static|extern)\b/.test(type)) return false;
+    const resolved = resolveTypedefs(type, this.typedefs);
+    return isArithmeticType(resolved) || isPointerType(resolved);
+  }
+}
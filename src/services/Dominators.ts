@@ -0,0 +1,139 @@
+import { ControlFlowGraph, DominanceInfo, NaturalLoop } from '../types/compiler';
+
+// Helper to list the blocks reachable from `root` in reverse postorder, where every block comes
+// before the blocks it reaches except along edges that close a cycle
+const reversePostorder = (root: string, successors: Map<string, string[]>): string[] => {
+  const visited = new Set<string>();
+  const order: string[] = [];
+  const visit = (id: string) => {
+    visited.add(id);
+    successors.get(id)!.forEach(next => {
+      if (!visited.has(next)) visit(next);
+    });
+    order.push(id);
+  };
+  visit(root);
+  return order.reverse();
+};
+
+// Immediate dominators of the blocks reachable from `root`, with the root as its own, by the
+// iterative algorithm of Cooper, Harvey and Kennedy: each block's dominator is where the
+// dominator tree paths of its predecessors meet, repeated until nothing changes
+const immediateDominators = (
+  root: string,
+  successors: Map<string, string[]>,
+  predecessors: Map<string, string[]>
+): Map<string, string> => {
+  const order = reversePostorder(root, successors);
+  const index = new Map(order.map((id, i) => [id, i]));
+  const idom = new Map([[root, root]]);
+  
+  const intersect = (a: string, b: string): string => {
+    while (a !== b) {
+      while (index.get(a)! > index.get(b)!) a = idom.get(a)!;
+      while (index.get(b)! > index.get(a)!) b = idom.get(b)!;
+    }
+    return a;
+  };
+  
+  let changed = true;
+  while (changed) {
+    changed = false;
+    order.slice(1).forEach(id => {
+      // Some predecessor comes earlier in the order, so at least one has been processed
+      const next = predecessors.get(id)!.filter(from => idom.has(from)).reduce(intersect);
+      if (idom.get(id) !== next) {
+        idom.set(id, next);
+        changed = true;
+      }
+    });
+  }
+  
+  return idom;
+};
+
+// Computes the dominator and post-dominator trees, dominance frontiers and natural loops of a graph
+export const analyzeDominance = (graph: Omit<ControlFlowGraph, 'dominance' | 'dataflow'>): DominanceInfo => {
+  const ids = graph.blocks.map(block => block.id);
+  const successors = new Map<string, string[]>(ids.map(id => [id, []]));
+  const predecessors = new Map<string, string[]>(ids.map(id => [id, []]));
+  graph.edges.forEach(edge => {
+    successors.get(edge.from)!.push(edge.to);
+    predecessors.get(edge.to)!.push(edge.from);
+  });
+  
+  const dominators = immediateDominators(graph.entry, successors, predecessors);
+  // Post-dominators are the dominators of the graph with its edges reversed, from the exit
+  const postDominators = immediateDominators(graph.exit, predecessors, successors);
+  
+  const idom: Record<string, string | null> = {};
+  const postIdom: Record<string, string | null> = {};
+  ids.forEach(id => {
+    idom[id] = id === graph.entry ? null : dominators.get(id) ?? null;
+    postIdom[id] = id === graph.exit ? null : postDominators.get(id) ?? null;
+  });
+  
+  // A join point is in the frontier of each block on the dominator tree path from one of its
+  // predecessors up to, but not including, its own immediate dominator
+  const frontier = new Map<string, Set<string>>(ids.map(id => [id, new Set()]));
+  ids.forEach(id => {
+    const from = predecessors.get(id)!.filter(predecessor => dominators.has(predecessor));
+    if (from.length < 2 || !dominators.has(id)) return;
+    from.forEach(predecessor => {
+      for (let runner = predecessor; runner !== idom[id]; runner = dominators.get(runner)!) {
+        frontier.get(runner)!.add(id);
+        if (runner === graph.entry) break;
+      }
+    });
+  });
+  
+  const dominates = (a: string, b: string): boolean => {
+    for (let runner = b; ; runner = dominators.get(runner)!) {
+      if (runner === a) return true;
+      if (runner === graph.entry) return false;
+    }
+  };
+  
+  // Back edges, grouped by the loop header they return to; loops sharing a header are one loop
+  const latches = new Map<string, string[]>();
+  graph.edges
+    .filter(edge => dominators.has(edge.from) && dominates(edge.to, edge.from))
+    .forEach(edge => latches.set(edge.to, [...(latches.get(edge.to) ?? []), edge.from]));
+  
+  const loops: NaturalLoop[] = [...latches].map(([header, sources]) => {
+    const body = new Set([header]);
+    const pending = [...sources];
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      if (body.has(id)) continue;
+      body.add(id);
+      pending.push(...predecessors.get(id)!.filter(predecessor => dominators.has(predecessor)));
+    }
+    return { header, latches: [...new Set(sources)], blocks: ids.filter(id => body.has(id)), depth: 1 };
+  });
+  
+  // Loops are properly nested, so the parent of a loop is the smallest other loop holding its header.
+  // Going from the largest loop down means parents get their depth first.
+  [...loops].sort((a, b) => b.blocks.length - a.blocks.length).forEach(loop => {
+    const parent = loops
+      .filter(other => other !== loop && other.blocks.includes(loop.header))
+      .sort((a, b) => a.blocks.length - b.blocks.length)[0];
+    if (parent) {
+      loop.parent = parent.header;
+      loop.depth = parent.depth + 1;
+    }
+  });
+  
+  const loopDepth: Record<string, number> = {};
+  ids.forEach(id => {
+    loopDepth[id] = loops.filter(loop => loop.blocks.includes(id)).length;
+  });
+  
+  return {
+    idom,
+    frontier: Object.fromEntries([...frontier].map(([id, blocks]) => [id, ids.filter(other => blocks.has(other))])),
+    postIdom,
+    loops: loops.sort((a, b) => ids.indexOf(a.header) - ids.indexOf(b.header)),
+    loopDepth
+  };
+};
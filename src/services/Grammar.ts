@@ -0,0 +1,517 @@
+import { CompilerError, Grammar, GrammarAnalysis, GrammarConflict, GrammarProduction } from '../types/compiler';
+
+// Lookahead at the end of the input in FOLLOW sets and the LL(1) table
+export const END_MARKER = '$';
+
+// Token types of the C lexer that a grammar can use as terminals
+export const TOKEN_CLASSES = new Set(['IDENTIFIER', 'NUMBER', 'STRING', 'CHAR', 'KEYWORD', 'OPERATOR', 'PUNCTUATION']);
+
+// Token of the grammar text itself
+interface GrammarToken {
+  kind: 'name' | 'quoted' | 'epsilon' | 'define' | 'symbol' | 'end';
+  text: string;
+  line: number;
+  column: number;
+}
+
+// Nonterminal or terminal as written in a rule body, kept with its position until every rule is known
+interface SymbolReference {
+  name: string;
+  line: number;
+  column: number;
+}
+
+const DEFINE_OPERATORS = ['::=', '->', '→', ':', '='];
+const GRAMMAR_SYMBOLS = new Set(['|', '(', ')', '[', ']', '{', '}', '*', '+', '?', ';']);
+
+const isNameStart = (ch: string) => /[A-Za-z_]/.test(ch);
+const isNamePart = (ch: string) => /[A-Za-z0-9_']/.test(ch);
+
+// Quoted terminals match a token's text, anything else names a token type
+export const isLiteralTerminal = (terminal: string): boolean => terminal.startsWith("'") && terminal.length > 1;
+
+export const describeTerminal = (terminal: string): string =>
+  terminal === END_MARKER ? 'end of input' : terminal;
+
+// Reads BNF or EBNF grammar text. Rules are written `head ::= body | body`, with `->`, `→`, `:` or
+// `=` also accepted. A rule ends at `;` or where the next one starts, and `//` or `#` start a comment.
+// EBNF groups ( ), options [ ] or `?`, and repetitions { }, `*` or `+` become extra nonterminals
+// named after the rule they appear in.
+export class GrammarReader {
+  private readonly source: string;
+  private tokens: GrammarToken[] = [];
+  private pos = 0;
+  private heads = new Set<string>();
+  private productions: { head: string, body: SymbolReference[], line: number }[] = [];
+  private generated = new Map<string, number>();
+  private errors: CompilerError[] = [];
+  
+  constructor(source: string) {
+    this.source = source;
+  }
+  
+  read(): { grammar: Grammar, errors: CompilerError[] } {
+    this.tokens = this.tokenize();
+    this.pos = 0;
+    this.productions = [];
+    this.generated = new Map();
+    
+    // Every rule head is a nonterminal, wherever in the text its rule is written
+    this.heads = new Set(this.tokens
+      .filter((token, i) => token.kind === 'name' && this.tokens[i + 1]?.kind === 'define')
+      .map(token => token.text));
+    
+    while (this.peek().kind !== 'end') {
+      this.readRule();
+    }
+    
+    return { grammar: this.buildGrammar(), errors: this.errors };
+  }
+  
+  private tokenize(): GrammarToken[] {
+    const tokens: GrammarToken[] = [];
+    let pos = 0;
+    let line = 1;
+    let column = 1;
+    
+    const advance = (count: number) => {
+      for (let i = 0; i < count; i++) {
+        if (this.source[pos] === '\n') {
+          line++;
+          column = 1;
+        } else {
+          column++;
+        }
+        pos++;
+      }
+    };
+    
+    while (pos < this.source.length) {
+      const ch = this.source[pos];
+      const rest = this.source.slice(pos, pos + 3);
+      const start = { line, column };
+      
+      if (/\s/.test(ch)) {
+        advance(1);
+      } else if (ch === '#' || rest.startsWith('//')) {
+        while (pos < this.source.length && this.source[pos] !== '\n') advance(1);
+      } else if (ch === "'" || ch === '"') {
+        let end = pos + 1;
+        let text = '';
+        while (end < this.source.length && this.source[end] !== ch && this.source[end] !== '\n') {
+          if (this.source[end] === '\\' && end + 1 < this.source.length) end++;
+          text += this.source[end];
+          end++;
+        }
+        if (this.source[end] !== ch) {
+          this.error(`Unterminated quoted terminal ${this.source.slice(pos, end)}`, start.line, start.column);
+        }
+        advance(end + 1 - pos);
+        tokens.push({ kind: text === '' ? 'epsilon' : 'quoted', text, ...start });
+      } else if (ch === '<' && /^<[A-Za-z_][\w-]*>/.test(this.source.slice(pos))) {
+        const text = /^<([A-Za-z_][\w-]*)>/.exec(this.source.slice(pos))![1];
+        advance(text.length + 2);
+        tokens.push({ kind: 'name', text, ...start });
+      } else if (isNameStart(ch) || ch === 'ε') {
+        let end = pos + 1;
+        while (end < this.source.length && isNamePart(this.source[end])) end++;
+        const text = this.source.slice(pos, end);
+        advance(end - pos);
+        tokens.push({ kind: text === 'ε' || text === 'epsilon' ? 'epsilon' : 'name', text, ...start });
+      } else if (DEFINE_OPERATORS.some(operator => rest.startsWith(operator))) {
+        const text = DEFINE_OPERATORS.find(operator => rest.startsWith(operator))!;
+        advance(text.length);
+        tokens.push({ kind: 'define', text, ...start });
+      } else if (GRAMMAR_SYMBOLS.has(ch)) {
+        advance(1);
+        tokens.push({ kind: 'symbol', text: ch, ...start });
+      } else {
+        this.error(`Unexpected character '${ch}' in the grammar`, line, column);
+        advance(1);
+      }
+    }
+    
+    tokens.push({ kind: 'end', text: '', line, column });
+    return tokens;
+  }
+  
+  // rule: name define alternatives (';')?
+  private readRule() {
+    const head = this.peek();
+    
+    if (head.kind !== 'name' || this.tokens[this.pos + 1].kind !== 'define') {
+      this.error(`Expected a rule of the form 'name ::= ...' but found ${this.describe(head)}`, head.line, head.column);
+      // Skip to the start of the next rule
+      do {
+        this.pos++;
+      } while (this.peek().kind !== 'end' && !(this.peek().kind === 'name' && this.tokens[this.pos + 1].kind === 'define'));
+      return;
+    }
+    
+    this.pos += 2;
+    // The rule's own alternatives go before those of the nonterminals generated while reading it
+    const mark = this.productions.length;
+    const alternatives = this.readAlternatives(head.text).map(({ body, line }) => ({ head: head.text, body, line }));
+    this.productions.splice(mark, 0, ...alternatives);
+    
+    if (this.check('symbol', ';')) {
+      this.pos++;
+    } else if (!this.atRuleEnd()) {
+      const token = this.peek();
+      this.error(`Unexpected ${this.describe(token)} in the rule for '${head.text}'`, token.line, token.column);
+      while (!this.atRuleEnd()) this.pos++;
+    }
+  }
+  
+  // alternatives: sequence ('|' sequence)*
+  private readAlternatives(head: string): { body: SymbolReference[], line: number }[] {
+    const alternatives = [{ line: this.peek().line, body: this.readSequence(head) }];
+    
+    while (this.check('symbol', '|')) {
+      this.pos++;
+      alternatives.push({ line: this.peek().line, body: this.readSequence(head) });
+    }
+    
+    return alternatives;
+  }
+  
+  // sequence: item*
+  private readSequence(head: string): SymbolReference[] {
+    const sequence: SymbolReference[] = [];
+    
+    while (!this.atRuleEnd() && !['|', ')', ']', '}'].some(text => this.check('symbol', text))) {
+      const item = this.readItem(head);
+      if (!item) break;
+      sequence.push(...item);
+    }
+    
+    return sequence;
+  }
+  
+  // item: atom ('*' | '+' | '?')*
+  private readItem(head: string): SymbolReference[] | null {
+    const start = this.peek();
+    let alternatives = this.readAtom(head);
+    if (!alternatives) return null;
+    
+    while (['*', '+', '?'].some(text => this.check('symbol', text))) {
+      const operator = this.tokens[this.pos++].text;
+      const sequence = this.inline(head, alternatives, start);
+      
+      if (operator === '?') {
+        alternatives = [[this.generate(head, 'opt', [sequence, []], start)]];
+      } else {
+        const repetition = this.repeat(head, [sequence], start);
+        alternatives = operator === '*' ? [[repetition]] : [[...sequence, repetition]];
+      }
+    }
+    
+    return this.inline(head, alternatives, start);
+  }
+  
+  // atom: name | quoted | ε | '(' alternatives ')' | '[' alternatives ']' | '{' alternatives '}'
+  private readAtom(head: string): SymbolReference[][] | null {
+    const token = this.peek();
+    
+    if (token.kind === 'name') {
+      this.pos++;
+      return [[{ name: token.text, line: token.line, column: token.column }]];
+    }
+    if (token.kind === 'quoted') {
+      this.pos++;
+      return [[{ name: `'${token.text}'`, line: token.line, column: token.column }]];
+    }
+    if (token.kind === 'epsilon') {
+      this.pos++;
+      return [[]];
+    }
+    
+    // Anything else is left for the enclosing rule to report
+    const close = ({ '(': ')', '[': ']', '{': '}' } as Record<string, string>)[token.text];
+    if (token.kind !== 'symbol' || !close) {
+      return null;
+    }
+    
+    this.pos++;
+    const alternatives = this.readAlternatives(head).map(alternative => alternative.body);
+    if (this.check('symbol', close)) {
+      this.pos++;
+    } else {
+      const found = this.peek();
+      this.error(`Expected '${close}' to close the '${token.text}' on line ${token.line} but found ${this.describe(found)}`,
+        found.line, found.column);
+    }
+    
+    if (token.text === '[') {
+      return [[this.generate(head, 'opt', [...alternatives, []], token)]];
+    }
+    if (token.text === '{') {
+      return [[this.repeat(head, alternatives, token)]];
+    }
+    return alternatives;
+  }
+  
+  // Helper to turn alternatives into one sequence, through a new nonterminal when there are several
+  private inline(head: string, alternatives: SymbolReference[][], at: GrammarToken): SymbolReference[] {
+    return alternatives.length === 1 ? alternatives[0] : [this.generate(head, 'group', alternatives, at)];
+  }
+  
+  // Zero or more repetitions as a right-recursive nonterminal: rep -> body rep | ε
+  private repeat(head: string, alternatives: SymbolReference[][], at: GrammarToken): SymbolReference {
+    const name = this.freshName(head, 'rep');
+    const self = { name, line: at.line, column: at.column };
+    alternatives.forEach(body => this.productions.push({ head: name, body: [...body, self], line: at.line }));
+    this.productions.push({ head: name, body: [], line: at.line });
+    return self;
+  }
+  
+  private generate(head: string, kind: string, alternatives: SymbolReference[][], at: GrammarToken): SymbolReference {
+    const name = this.freshName(head, kind);
+    alternatives.forEach(body => this.productions.push({ head: name, body, line: at.line }));
+    return { name, line: at.line, column: at.column };
+  }
+  
+  private freshName(head: string, kind: string): string {
+    let name: string;
+    do {
+      const prefix = `${head}_${kind}`;
+      const count = (this.generated.get(prefix) ?? 0) + 1;
+      this.generated.set(prefix, count);
+      name = `${prefix}${count}`;
+    } while (this.heads.has(name));
+    this.heads.add(name);
+    return name;
+  }
+  
+  // Resolve every name used in a body now that all the rule heads are known
+  private buildGrammar(): Grammar {
+    const nonterminals = [...new Set(this.productions.map(production => production.head))];
+    const defined = new Set(nonterminals);
+    const terminals = new Set<string>();
+    const productions: GrammarProduction[] = [];
+    
+    this.productions.forEach(({ head, body, line }) => {
+      body.forEach(symbol => {
+        if (defined.has(symbol.name)) return;
+        if (symbol.name.startsWith("'") || TOKEN_CLASSES.has(symbol.name)) {
+          terminals.add(symbol.name);
+        } else {
+          this.error(`'${symbol.name}' is neither a rule nor a token type (${[...TOKEN_CLASSES].join(', ')})`,
+            symbol.line, symbol.column);
+        }
+      });
+      productions.push({ id: productions.length, head, body: body.map(symbol => symbol.name), line });
+    });
+    
+    if (nonterminals.length === 0) {
+      this.error('The grammar has no rules', 1, 1);
+    }
+    
+    return { start: nonterminals[0] ?? '', nonterminals, terminals: [...terminals], productions };
+  }
+  
+  private atRuleEnd(): boolean {
+    const token = this.peek();
+    return token.kind === 'end'
+      || this.check('symbol', ';')
+      || (token.kind === 'name' && this.tokens[this.pos + 1].kind === 'define');
+  }
+  
+  private check(kind: GrammarToken['kind'], text: string): boolean {
+    const token = this.peek();
+    return token.kind === kind && token.text === text;
+  }
+  
+  private peek(): GrammarToken {
+    return this.tokens[Math.min(this.pos, this.tokens.length - 1)];
+  }
+  
+  private describe(token: GrammarToken): string {
+    return token.kind === 'end' ? 'the end of the grammar' : `'${token.text}'`;
+  }
+  
+  private error(message: string, line: number, column: number) {
+    this.errors.push({ message, line, column, severity: 'error' });
+  }
+}
+
+// Read a grammar and compute what an LL(1) parser needs: nullable nonterminals, FIRST and FOLLOW
+// sets and the parse table, along with the conflicts and left recursion that make it not LL(1)
+export const analyzeGrammar = (source: string): GrammarAnalysis => {
+  const { grammar, errors } = new GrammarReader(source).read();
+  const { nonterminals, productions } = grammar;
+  
+  const nullable = new Set<string>();
+  const first = new Map(nonterminals.map(name => [name, new Set<string>()]));
+  const follow = new Map(nonterminals.map(name => [name, new Set<string>()]));
+  const isNonterminal = (symbol: string) => first.has(symbol);
+  
+  // FIRST of a sequence of symbols, and whether the whole sequence can derive ε
+  const firstOf = (sequence: string[]): { terminals: Set<string>, nullable: boolean } => {
+    const terminals = new Set<string>();
+    for (const symbol of sequence) {
+      if (!isNonterminal(symbol)) {
+        terminals.add(symbol);
+        return { terminals, nullable: false };
+      }
+      first.get(symbol)!.forEach(terminal => terminals.add(terminal));
+      if (!nullable.has(symbol)) return { terminals, nullable: false };
+    }
+    return { terminals, nullable: true };
+  };
+  
+  // Nullable and FIRST grow together until nothing changes
+  let changed = true;
+  while (changed) {
+    changed = false;
+    productions.forEach(({ head, body }) => {
+      const result = firstOf(body);
+      const headFirst = first.get(head)!;
+      const size = headFirst.size;
+      result.terminals.forEach(terminal => headFirst.add(terminal));
+      if (result.nullable && !nullable.has(head)) {
+        nullable.add(head);
+        changed = true;
+      }
+      changed ||= headFirst.size !== size;
+    });
+  }
+  
+  // FOLLOW: what can come after each nonterminal in some sentential form
+  follow.get(grammar.start)?.add(END_MARKER);
+  changed = true;
+  while (changed) {
+    changed = false;
+    productions.forEach(({ head, body }) => {
+      body.forEach((symbol, i) => {
+        if (!isNonterminal(symbol)) return;
+        const symbolFollow = follow.get(symbol)!;
+        const size = symbolFollow.size;
+        const rest = firstOf(body.slice(i + 1));
+        rest.terminals.forEach(terminal => symbolFollow.add(terminal));
+        if (rest.nullable) {
+          follow.get(head)!.forEach(terminal => symbolFollow.add(terminal));
+        }
+        changed ||= symbolFollow.size !== size;
+      });
+    });
+  }
+  
+  // A → α goes in table[A][t] for t in FIRST(α), and for t in FOLLOW(A) when α can derive ε
+  const table: Record<string, Record<string, number[]>> = {};
+  nonterminals.forEach(name => table[name] = {});
+  productions.forEach(({ id, head, body }) => {
+    const result = firstOf(body);
+    const lookaheads = result.nullable ? [...result.terminals, ...follow.get(head)!] : [...result.terminals];
+    new Set(lookaheads).forEach(terminal => {
+      (table[head][terminal] ??= []).push(id);
+    });
+  });
+  
+  const conflicts: GrammarConflict[] = [];
+  nonterminals.forEach(nonterminal => Object.entries(table[nonterminal]).forEach(([terminal, entries]) => {
+    if (entries.length > 1) conflicts.push({ nonterminal, terminal, productions: entries });
+  }));
+  
+  const leftRecursion = findLeftRecursion(grammar, nullable);
+  errors.push(...findUselessNonterminals(grammar, nullable));
+  errors.sort((a, b) => a.line - b.line || a.column - b.column);
+  
+  const toRecord = (sets: Map<string, Set<string>>) =>
+    Object.fromEntries([...sets].map(([name, set]) => [name, [...set]]));
+  
+  return {
+    grammar,
+    nullable: nonterminals.filter(name => nullable.has(name)),
+    first: toRecord(first),
+    follow: toRecord(follow),
+    table,
+    conflicts,
+    leftRecursion,
+    errors
+  };
+};
+
+// A nonterminal is left recursive when it can derive a sentential form starting with itself.
+// Every cycle of the "can start with" graph is reported once, as its shortest path.
+const findLeftRecursion = (grammar: Grammar, nullable: Set<string>): string[][] => {
+  const startsWith = new Map(grammar.nonterminals.map(name => [name, new Set<string>()]));
+  
+  grammar.productions.forEach(({ head, body }) => {
+    for (const symbol of body) {
+      if (!startsWith.has(symbol)) break;
+      startsWith.get(head)!.add(symbol);
+      if (!nullable.has(symbol)) break;
+    }
+  });
+  
+  const cycles: string[][] = [];
+  const reported = new Set<string>();
+  
+  grammar.nonterminals.forEach(name => {
+    // Breadth-first search for the shortest way back to `name`
+    const previous = new Map<string, string>();
+    const queue = [name];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const next of startsWith.get(current)!) {
+        if (next === name) {
+          const path = [name];
+          for (let at = current; at !== name; at = previous.get(at)!) path.splice(1, 0, at);
+          const key = [...new Set(path)].sort().join(' ');
+          if (!reported.has(key)) {
+            reported.add(key);
+            cycles.push([...path, name]);
+          }
+          return;
+        }
+        if (!previous.has(next)) {
+          previous.set(next, current);
+          queue.push(next);
+        }
+      }
+    }
+  });
+  
+  return cycles;
+};
+
+// Helper to warn about rules that can never take part in a parse: nonterminals the start symbol
+// cannot reach, and ones that cannot derive any string of terminals
+const findUselessNonterminals = (grammar: Grammar, nullable: Set<string>): CompilerError[] => {
+  const warnings: CompilerError[] = [];
+  const lineOf = (name: string) => grammar.productions.find(production => production.head === name)?.line ?? 1;
+  
+  const productive = new Set(nullable);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    grammar.productions.forEach(({ head, body }) => {
+      if (!productive.has(head) && body.every(symbol => productive.has(symbol) || !grammar.nonterminals.includes(symbol))) {
+        productive.add(head);
+        changed = true;
+      }
+    });
+  }
+  
+  const reachable = new Set<string>();
+  const pending = grammar.start ? [grammar.start] : [];
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (reachable.has(name)) continue;
+    reachable.add(name);
+    grammar.productions
+      .filter(production => production.head === name)
+      .forEach(production => pending.push(...production.body.filter(symbol => grammar.nonterminals.includes(symbol))));
+  }
+  
+  grammar.nonterminals.forEach(name => {
+    if (!reachable.has(name)) {
+      warnings.push({ message: `Rule '${name}' is not reachable from '${grammar.start}'`, line: lineOf(name), column: 1, severity: 'warning' });
+    } else if (!productive.has(name)) {
+      warnings.push({ message: `Rule '${name}' cannot derive any string of terminals`, line: lineOf(name), column: 1, severity: 'warning' });
+    }
+  });
+  
+  return warnings;
+};
@@ -0,0 +1,190 @@
+import { Token, ParseTreeNode, CompilerError, GrammarAnalysis } from '../types/compiler';
+import { END_MARKER, describeTerminal, isLiteralTerminal } from './Grammar';
+import { spanBetween } from './Parser';
+
+// Symbol waiting on the parse stack, with the tree node it will fill in
+interface StackEntry {
+  symbol: string;
+  node: ParseTreeNode;
+}
+
+// Table-driven LL(1) parser for a user-defined grammar. The tree it builds is a concrete parse
+// tree: one node per nonterminal expanded, named after its rule, and one leaf per token matched.
+// It is only given conflict-free tables: grammars with conflicts are parsed with LALR(1) instead.
+export class LL1Parser {
+  private readonly analysis: GrammarAnalysis;
+  private readonly tokens: Token[];
+  private current = 0;
+  private nodeId = 0;
+  private errors: CompilerError[] = [];
+  private lastErrorToken: Token | undefined | null = null;
+  
+  constructor(analysis: GrammarAnalysis, tokens: Token[]) {
+    this.analysis = analysis;
+    this.tokens = tokens;
+  }
+  
+  parse(): { parseTree: ParseTreeNode, errors: CompilerError[] } {
+    this.current = 0;
+    this.nodeId = 0;
+    this.errors = [];
+    this.lastErrorToken = null;
+    
+    const { grammar } = this.analysis;
+    const root = this.createNode(grammar.start);
+    const stack: StackEntry[] = [{ symbol: grammar.start, node: root }];
+    
+    while (stack.length > 0) {
+      const { symbol, node } = stack.pop()!;
+      
+      if (this.analysis.table[symbol]) {
+        this.expand(symbol, node, stack);
+      } else if (this.matches(symbol)) {
+        const token = this.advance();
+        node.type = token.type;
+        node.value = token.value;
+        node.literal = token.literal;
+        node.span = spanBetween(token, token);
+      } else {
+        // Phrase-level recovery: report the missing terminal and continue as if it had been there
+        this.reportError(`Expected ${describeTerminal(symbol)}`);
+        node.type = 'ERROR';
+        node.value = `missing ${symbol}`;
+        node.span = spanBetween(this.peek(), this.previous());
+      }
+    }
+    
+    if (this.peek()) {
+      this.reportError(`Expected ${describeTerminal(END_MARKER)}`);
+      const start = this.current;
+      this.current = this.tokens.length;
+      root.children.push(this.skipped(start));
+    }
+    
+    this.coverChildren(root);
+    return { parseTree: root, errors: this.errors };
+  }
+  
+  // Replace a nonterminal by the production the table picks for the lookahead
+  private expand(nonterminal: string, node: ParseTreeNode, stack: StackEntry[]) {
+    let productionId = this.lookup(nonterminal);
+    
+    if (productionId === undefined) {
+      const expected = Object.keys(this.analysis.table[nonterminal]);
+      this.reportError(`Expected ${this.describeExpected(expected)} to begin ${nonterminal}`);
+      
+      // Panic mode: skip tokens until one that can begin or follow the nonterminal
+      const follow = new Set(this.analysis.follow[nonterminal]);
+      const start = this.current;
+      while (this.peek() && this.lookup(nonterminal) === undefined && !this.lookaheadsOf(this.peek()).some(t => follow.has(t))) {
+        this.current++;
+      }
+      node.children.push(this.skipped(start));
+      
+      productionId = this.lookup(nonterminal);
+      if (productionId === undefined) {
+        node.span = spanBetween(this.tokens[start], this.previous());
+        return;
+      }
+    }
+    
+    const production = this.analysis.grammar.productions[productionId];
+    const children = production.body.map(symbol => this.createNode(symbol));
+    node.children.push(...children);
+    node.span = spanBetween(this.peek(), this.previous());
+    
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ symbol: production.body[i], node: children[i] });
+    }
+  }
+  
+  private lookup(nonterminal: string): number | undefined {
+    const row = this.analysis.table[nonterminal];
+    const terminal = this.lookaheadsOf(this.peek()).find(candidate => row[candidate]);
+    return terminal === undefined ? undefined : row[terminal][0];
+  }
+  
+  // Terminals the token can stand for: its own text first, then its type
+  private lookaheadsOf(token: Token | undefined): string[] {
+    return token ? [`'${token.value}'`, token.type] : [END_MARKER];
+  }
+  
+  private matches(terminal: string): boolean {
+    const token = this.peek();
+    if (!token) return false;
+    return isLiteralTerminal(terminal) ? `'${token.value}'` === terminal : token.type === terminal;
+  }
+  
+  // Helper to wrap the tokens skipped since `start` in an ERROR node
+  private skipped(start: number): ParseTreeNode {
+    const tokens = this.tokens.slice(start, this.current);
+    const node = this.createNode('ERROR');
+    node.value = tokens.map(token => token.value).join(' ');
+    node.span = tokens.length > 0
+      ? spanBetween(tokens[0], tokens[tokens.length - 1])
+      : spanBetween(this.peek(), this.previous());
+    return node;
+  }
+  
+  // Spans of nonterminals run from their first to their last non-empty child. The tree is walked
+  // without recursion because repetitions make it as deep as the input is long.
+  private coverChildren(root: ParseTreeNode) {
+    const order: ParseTreeNode[] = [];
+    const pending = [root];
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      order.push(node);
+      pending.push(...node.children);
+    }
+    
+    for (let i = order.length - 1; i >= 0; i--) {
+      const spans = order[i].children.map(child => child.span).filter(span => span.start.offset !== span.end.offset);
+      if (spans.length > 0) {
+        order[i].span = { start: spans[0].start, end: spans[spans.length - 1].end };
+      }
+    }
+  }
+  
+  private describeExpected(terminals: string[]): string {
+    const names = terminals.map(describeTerminal);
+    if (names.length <= 1) return names[0] ?? 'nothing';
+    const shown = names.length > 6 ? [...names.slice(0, 5), 'more'] : names;
+    return `${shown.slice(0, -1).join(', ')} or ${shown[shown.length - 1]}`;
+  }
+  
+  private reportError(message: string) {
+    const token = this.peek();
+    // One error per position; the recovery that follows would otherwise repeat it
+    if (token === this.lastErrorToken) return;
+    this.lastErrorToken = token;
+    
+    const last = this.previous();
+    this.errors.push({
+      message: token ? `${message} but found '${token.value}'` : `${message} but reached the end of input`,
+      line: token ? token.line : last ? last.line : 1,
+      column: token ? token.column : last ? last.column + last.value.length : 1,
+      severity: 'error'
+    });
+  }
+  
+  private createNode(type: string): ParseTreeNode {
+    return {
+      id: `node_${this.nodeId++}`,
+      type,
+      span: spanBetween(this.peek(), this.previous()),
+      children: []
+    };
+  }
+  
+  private advance(): Token {
+    return this.tokens[this.current++];
+  }
+  
+  private peek(): Token | undefined {
+    return this.tokens[this.current];
+  }
+  
+  private previous(): Token | undefined {
+    return this.tokens[this.current - 1];
+  }
+}
@@ -0,0 +1,249 @@
+import {
+  GrammarAnalysis,
+  GrammarProduction,
+  LRAction,
+  LRConflict,
+  LRItem,
+  LRMethod,
+  LRState,
+  LRTable
+} from '../types/compiler';
+import { END_MARKER } from './Grammar';
+
+export const LR_METHODS: LRMethod[] = ['LR(0)', 'SLR(1)', 'LALR(1)'];
+
+// Stands for "whatever follows the kernel item" while LALR(1) lookaheads are traced
+const PROPAGATE = '#';
+
+const itemKey = (production: number, dot: number) => `${production}.${dot}`;
+
+// Canonical LR(0) collection of the augmented grammar, with LALR(1) lookaheads on every item
+export class LRAutomaton {
+  readonly productions: GrammarProduction[];
+  readonly states: LRState[] = [];
+  private readonly analysis: GrammarAnalysis;
+  private readonly byHead = new Map<string, GrammarProduction[]>();
+  private readonly nullable: Set<string>;
+  private readonly startProduction: number;
+  
+  constructor(analysis: GrammarAnalysis) {
+    this.analysis = analysis;
+    this.nullable = new Set(analysis.nullable);
+    const { grammar } = analysis;
+    
+    // Augmented grammar: S' -> S, so that accepting is reducing the one production of S'
+    this.startProduction = grammar.productions.length;
+    this.productions = [
+      ...grammar.productions,
+      { id: this.startProduction, head: `${grammar.start}'`, body: [grammar.start], line: 0 }
+    ];
+    this.productions.forEach(production => {
+      if (!this.byHead.has(production.head)) this.byHead.set(production.head, []);
+      this.byHead.get(production.head)!.push(production);
+    });
+    
+    this.buildStates();
+    this.computeLookaheads();
+  }
+  
+  // ACTION and GOTO tables. The methods differ only in the lookaheads a reduction is entered under:
+  // every terminal for LR(0), FOLLOW of the head for SLR(1), the item's lookaheads for LALR(1).
+  buildTable(method: LRMethod): LRTable {
+    const terminals = [...this.analysis.grammar.terminals, END_MARKER];
+    const action: Record<string, LRAction[]>[] = [];
+    const goto: Record<string, number>[] = [];
+    const conflicts: LRConflict[] = [];
+    
+    this.states.forEach(state => {
+      const row: Record<string, LRAction[]> = {};
+      const add = (terminal: string, entry: LRAction) => (row[terminal] ??= []).push(entry);
+      goto[state.id] = {};
+      
+      Object.entries(state.transitions).forEach(([symbol, target]) => {
+        if (this.byHead.has(symbol)) {
+          goto[state.id][symbol] = target;
+        } else {
+          add(symbol, { kind: 'shift', state: target });
+        }
+      });
+      
+      state.items.forEach(item => {
+        const production = this.productions[item.production];
+        if (item.dot < production.body.length) return;
+        
+        if (item.production === this.startProduction) {
+          add(END_MARKER, { kind: 'accept' });
+          return;
+        }
+        
+        const lookaheads = method === 'LR(0)' ? terminals
+          : method === 'SLR(1)' ? this.analysis.follow[production.head]
+          : item.lookaheads;
+        lookaheads.forEach(terminal => add(terminal, { kind: 'reduce', production: item.production }));
+      });
+      
+      Object.entries(row).forEach(([terminal, entries]) => {
+        if (entries.length < 2) return;
+        const kind = entries.some(entry => entry.kind === 'shift') ? 'shift-reduce' : 'reduce-reduce';
+        conflicts.push({ state: state.id, terminal, kind, actions: entries });
+      });
+      action[state.id] = row;
+    });
+    
+    return { action, goto, conflicts };
+  }
+  
+  private buildStates() {
+    const byKernel = new Map<string, number>();
+    
+    const addState = (kernel: LRItem[]): number => {
+      const key = kernel.map(item => itemKey(item.production, item.dot)).sort().join(' ');
+      const existing = byKernel.get(key);
+      if (existing !== undefined) return existing;
+      
+      const id = this.states.length;
+      byKernel.set(key, id);
+      this.states.push({ id, kernel, items: this.closure(kernel), transitions: {} });
+      return id;
+    };
+    
+    addState([{ production: this.startProduction, dot: 0, lookaheads: [] }]);
+    
+    // States are appended while the loop runs, so every new state gets its transitions too
+    for (let i = 0; i < this.states.length; i++) {
+      const state = this.states[i];
+      const advanced = new Map<string, LRItem[]>();
+      
+      state.items.forEach(item => {
+        const symbol = this.productions[item.production].body[item.dot];
+        if (symbol === undefined) return;
+        if (!advanced.has(symbol)) advanced.set(symbol, []);
+        advanced.get(symbol)!.push({ production: item.production, dot: item.dot + 1, lookaheads: [] });
+      });
+      
+      advanced.forEach((kernel, symbol) => {
+        state.transitions[symbol] = addState(kernel);
+      });
+    }
+  }
+  
+  // Items reachable from the kernel by expanding the nonterminal after each dot
+  private closure(kernel: LRItem[]): LRItem[] {
+    const items = [...kernel];
+    const seen = new Set(kernel.map(item => itemKey(item.production, item.dot)));
+    
+    for (let i = 0; i < items.length; i++) {
+      const symbol = this.productions[items[i].production].body[items[i].dot];
+      this.byHead.get(symbol ?? '')?.forEach(production => {
+        const key = itemKey(production.id, 0);
+        if (seen.has(key)) return;
+        seen.add(key);
+        items.push({ production: production.id, dot: 0, lookaheads: [] });
+      });
+    }
+    
+    return items;
+  }
+  
+  // LR(1) closure over lookahead sets: an item B -> .γ added for A -> α.Bβ gets FIRST(β), and the
+  // lookaheads of A -> α.Bβ as well when β can derive ε
+  private closureWithLookaheads(kernel: Map<string, Set<string>>): Map<string, Set<string>> {
+    const items = new Map([...kernel].map(([key, lookaheads]) => [key, new Set(lookaheads)]));
+    const pending = [...items.keys()];
+    
+    while (pending.length > 0) {
+      const key = pending.pop()!;
+      const [production, dot] = key.split('.').map(Number);
+      const body = this.productions[production].body;
+      const expansions = this.byHead.get(body[dot] ?? '');
+      if (!expansions) continue;
+      
+      const { terminals, nullable } = this.firstOf(body.slice(dot + 1));
+      const lookaheads = new Set(terminals);
+      if (nullable) items.get(key)!.forEach(lookahead => lookaheads.add(lookahead));
+      
+      expansions.forEach(expansion => {
+        const target = itemKey(expansion.id, 0);
+        const isNew = !items.has(target);
+        if (isNew) items.set(target, new Set());
+        const existing = items.get(target)!;
+        const size = existing.size;
+        lookaheads.forEach(lookahead => existing.add(lookahead));
+        if (isNew || existing.size !== size) pending.push(target);
+      });
+    }
+    
+    return items;
+  }
+  
+  // LALR(1) lookaheads by propagation: each kernel item is closed with the placeholder lookahead to
+  // find which lookaheads it generates spontaneously and which it passes on to kernel items of
+  // successor states. Those are then spread until nothing changes.
+  private computeLookaheads() {
+    const kernelLookaheads = this.states.map(state =>
+      new Map(state.kernel.map(item => [itemKey(item.production, item.dot), new Set<string>()])));
+    const propagation = this.states.map(state =>
+      new Map(state.kernel.map(item => [itemKey(item.production, item.dot), [] as [number, string][]])));
+    
+    kernelLookaheads[0].get(itemKey(this.startProduction, 0))!.add(END_MARKER);
+    
+    this.states.forEach(state => {
+      state.kernel.forEach(kernelItem => {
+        const from = itemKey(kernelItem.production, kernelItem.dot);
+        const closed = this.closureWithLookaheads(new Map([[from, new Set([PROPAGATE])]]));
+        
+        closed.forEach((lookaheads, key) => {
+          const [production, dot] = key.split('.').map(Number);
+          const symbol = this.productions[production].body[dot];
+          if (symbol === undefined) return;
+          
+          const target = state.transitions[symbol];
+          const targetKey = itemKey(production, dot + 1);
+          lookaheads.forEach(lookahead => {
+            if (lookahead === PROPAGATE) {
+              propagation[state.id].get(from)!.push([target, targetKey]);
+            } else {
+              kernelLookaheads[target].get(targetKey)!.add(lookahead);
+            }
+          });
+        });
+      });
+    });
+    
+    let changed = true;
+    while (changed) {
+      changed = false;
+      propagation.forEach((links, stateId) => links.forEach((targets, from) => {
+        const lookaheads = kernelLookaheads[stateId].get(from)!;
+        targets.forEach(([target, targetKey]) => {
+          const existing = kernelLookaheads[target].get(targetKey)!;
+          const size = existing.size;
+          lookaheads.forEach(lookahead => existing.add(lookahead));
+          changed ||= existing.size !== size;
+        });
+      }));
+    }
+    
+    // Closing each state again with its final kernel lookaheads gives the lookaheads of the
+    // non-kernel items, which matter for reductions by ε-productions
+    this.states.forEach(state => {
+      const closed = this.closureWithLookaheads(kernelLookaheads[state.id]);
+      state.items.forEach(item => {
+        item.lookaheads = [...(closed.get(itemKey(item.production, item.dot)) ?? [])];
+      });
+    });
+  }
+  
+  private firstOf(sequence: string[]): { terminals: string[], nullable: boolean } {
+    const terminals = new Set<string>();
+    for (const symbol of sequence) {
+      if (!this.byHead.has(symbol)) {
+        terminals.add(symbol);
+        return { terminals: [...terminals], nullable: false };
+      }
+      this.analysis.first[symbol]?.forEach(terminal => terminals.add(terminal));
+      if (!this.nullable.has(symbol)) return { terminals: [...terminals], nullable: false };
+    }
+    return { terminals: [...terminals], nullable: true };
+  }
+}
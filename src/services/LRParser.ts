@@ -0,0 +1,131 @@
+import { Token, ParseTreeNode, CompilerError, GrammarProduction, LRAction, LRParse, LRTable, LRTraceStep } from '../types/compiler';
+import { END_MARKER, describeTerminal } from './Grammar';
+import { spanBetween } from './Parser';
+
+// Steps kept in the trace; longer parses still run to the end but are not recorded
+const MAX_TRACE_STEPS = 2000;
+// Tokens of remaining input shown in each trace step
+const INPUT_PREVIEW = 8;
+// Reductions in a row after which the grammar must be cyclic (A =>+ A) and the parse would not end
+const MAX_REDUCTIONS_WITHOUT_SHIFT = 10000;
+
+// Table-driven shift-reduce parser. Each reduction builds the node for its production from the
+// trees on top of the stack, so the forest on the stack grows into the parse tree. Conflicts are
+// resolved as yacc does: shift over reduce, then the production written first.
+export class LRParser {
+  private readonly productions: GrammarProduction[];
+  private readonly table: LRTable;
+  private readonly tokens: Token[];
+  private current = 0;
+  private nodeId = 0;
+  
+  constructor(productions: GrammarProduction[], table: LRTable, tokens: Token[]) {
+    this.productions = productions;
+    this.table = table;
+    this.tokens = tokens;
+  }
+  
+  parse(): LRParse {
+    this.current = 0;
+    this.nodeId = 0;
+    
+    const stack = [0];
+    const symbols: string[] = [];
+    const forest: ParseTreeNode[] = [];
+    const trace: LRTraceStep[] = [];
+    const errors: CompilerError[] = [];
+    let truncated = false;
+    let reductions = 0;
+    
+    const record = (action: string) => {
+      if (trace.length >= MAX_TRACE_STEPS) {
+        truncated = true;
+        return;
+      }
+      const input = this.tokens.slice(this.current, this.current + INPUT_PREVIEW).map(token => token.value);
+      if (this.current + INPUT_PREVIEW >= this.tokens.length) input.push(END_MARKER);
+      trace.push({ stack: [...stack], symbols: [...symbols], input, action, forest: [...forest] });
+    };
+    
+    for (;;) {
+      const state = stack[stack.length - 1];
+      const { terminal, action } = this.choose(state);
+      
+      if (!action) {
+        const expected = Object.keys(this.table.action[state]).map(describeTerminal);
+        const token = this.tokens[this.current];
+        const last = this.tokens[this.current - 1];
+        errors.push({
+          message: `${token ? `Unexpected '${token.value}'` : 'Unexpected end of input'}; expected ${expected.slice(0, 6).join(', ')}${expected.length > 6 ? ', …' : ''}`,
+          line: token ? token.line : last ? last.line : 1,
+          column: token ? token.column : last ? last.column + last.value.length : 1,
+          severity: 'error'
+        });
+        record('error');
+        return { trace, truncated, parseTree: null, errors };
+      }
+      
+      if (action.kind === 'accept') {
+        record('accept');
+        return { trace, truncated, parseTree: forest[0] ?? null, errors };
+      }
+      
+      if (action.kind === 'shift') {
+        record(`shift ${action.state}`);
+        const token = this.tokens[this.current++];
+        stack.push(action.state);
+        symbols.push(terminal);
+        forest.push(this.createNode(token.type, [], token));
+        reductions = 0;
+        continue;
+      }
+      
+      if (++reductions > MAX_REDUCTIONS_WITHOUT_SHIFT) {
+        errors.push({ message: 'The grammar is cyclic: the parser keeps reducing without reading input', line: 1, column: 1, severity: 'error' });
+        record('error');
+        return { trace, truncated, parseTree: null, errors };
+      }
+      
+      const production = this.productions[action.production];
+      record(`reduce ${action.production}: ${production.head} → ${production.body.join(' ') || 'ε'}`);
+      const count = production.body.length;
+      const children = forest.splice(forest.length - count, count);
+      stack.splice(stack.length - count, count);
+      symbols.splice(symbols.length - count, count);
+      
+      forest.push(this.createNode(production.head, children));
+      symbols.push(production.head);
+      stack.push(this.table.goto[stack[stack.length - 1]][production.head]);
+    }
+  }
+  
+  // The action for the lookahead, trying the token's text before its type
+  private choose(state: number): { terminal: string, action: LRAction | undefined } {
+    const row = this.table.action[state];
+    const token = this.tokens[this.current];
+    const candidates = token ? [`'${token.value}'`, token.type] : [END_MARKER];
+    const terminal = candidates.find(candidate => row[candidate]) ?? candidates[0];
+    const entries = row[terminal] ?? [];
+    const action = entries.find(entry => entry.kind !== 'reduce')
+      ?? entries.filter(entry => entry.kind === 'reduce')
+        .sort((a, b) => (a.kind === 'reduce' && b.kind === 'reduce' ? a.production - b.production : 0))[0];
+    return { terminal, action };
+  }
+  
+  // Helper to build a leaf for a shifted token, or the node of a reduction spanning its children
+  private createNode(type: string, children: ParseTreeNode[], token?: Token): ParseTreeNode {
+    const spans = children.map(child => child.span).filter(span => span.start.offset !== span.end.offset);
+    const span = token ? spanBetween(token, token)
+      : spans.length > 0 ? { start: spans[0].start, end: spans[spans.length - 1].end }
+      : spanBetween(this.tokens[this.current], this.tokens[this.current - 1]);
+    
+    return {
+      id: `lr_${this.nodeId++}`,
+      type,
+      value: token?.value,
+      literal: token?.literal,
+      span,
+      children
+    };
+  }
+}
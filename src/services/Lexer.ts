@@ -0,0 +1,336 @@
+import { Token, CompilerError } from '../types/compiler';
+import { C_KEYWORDS } from './keywords';
+
+// Problem found while decoding a literal, positioned relative to the literal's first character
+interface LiteralError {
+  message: string;
+  offset: number;
+  suggestions?: string[];
+}
+
+// Operators and punctuators, longest first so the scanner can take the first prefix that matches
+const OPERATORS = [
+  '<<=', '>>=', '...',
+  '->', '++', '--', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=',
+  '+', '-', '*', '/', '%', '=', '<', '>', '!', '&', '|', '^', '~', '?', ':'
+];
+const PUNCTUATION = new Set([';', ',', '(', ')', '{', '}', '[', ']', '.']);
+
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+const isIdentifierStart = (ch: string) => (ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z') || ch === '_';
+const isIdentifierPart = (ch: string) => isIdentifierStart(ch) || isDigit(ch);
+
+// Single-pass scanner: every character of the source is visited once
+export class Lexer {
+  private readonly source: string;
+  private readonly sourceLines: string[];
+  private pos = 0;
+  private line = 1;
+  private column = 1;
+  private tokens: Token[] = [];
+  private errors: CompilerError[] = [];
+  
+  constructor(source: string) {
+    this.source = source;
+    this.sourceLines = source.split('\n');
+  }
+  
+  tokenize(): { tokens: Token[], errors: CompilerError[] } {
+    this.pos = 0;
+    this.line = 1;
+    this.column = 1;
+    this.tokens = [];
+    this.errors = [];
+    
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+      const next = this.peek(1);
+      const start = this.pos;
+      const line = this.line;
+      const column = this.column;
+      
+      if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f' || ch === '\v') {
+        this.advance();
+      } else if (ch === '/' && next === '/') {
+        while (this.pos < this.source.length && this.source[this.pos] !== '\n') this.advance();
+        this.addToken('COMMENT', start, line, column);
+      } else if (ch === '/' && next === '*') {
+        this.scanBlockComment(start, line, column);
+      } else if (ch === '#') {
+        // Directive runs to the end of the line, honouring backslash continuations
+        while (this.pos < this.source.length && this.source[this.pos] !== '\n') {
+          if (this.source[this.pos] === '\\') this.advance();
+          this.advance();
+        }
+        this.addToken('PREPROCESSOR', start, line, column);
+      } else if (isIdentifierStart(ch)) {
+        while (this.pos < this.source.length && isIdentifierPart(this.source[this.pos])) this.advance();
+        const word = this.source.slice(start, this.pos);
+        this.addToken(C_KEYWORDS.has(word) ? 'KEYWORD' : 'IDENTIFIER', start, line, column);
+      } else if (isDigit(ch) || (ch === '.' && isDigit(next))) {
+        this.scanNumber(start, line, column);
+      } else if (ch === '"' || ch === '\'') {
+        this.scanQuoted(ch, start, line, column);
+      } else if (PUNCTUATION.has(ch) && !this.source.startsWith('...', this.pos)) {
+        this.advance();
+        this.addToken('PUNCTUATION', start, line, column);
+      } else {
+        const operator = OPERATORS.find(op => this.source.startsWith(op, this.pos));
+        
+        if (operator) {
+          this.advance(operator.length);
+          this.addToken('OPERATOR', start, line, column);
+        } else {
+          // Report the character and continue with the next one
+          this.advance();
+          this.addToken('ERROR', start, line, column);
+          this.reportError(`Unexpected character '${ch}'`, line, column, ['Remove the character']);
+        }
+      }
+    }
+    
+    return { tokens: this.tokens, errors: this.errors };
+  }
+  
+  private peek(offset: number): string {
+    return this.source[this.pos + offset] ?? '';
+  }
+  
+  private advance(count = 1): void {
+    for (let i = 0; i < count && this.pos < this.source.length; i++) {
+      if (this.source[this.pos] === '\n') {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+      this.pos++;
+    }
+  }
+  
+  private addToken(type: string, start: number, line: number, column: number): Token {
+    const token: Token = {
+      type,
+      value: this.source.slice(start, this.pos),
+      line,
+      column,
+      start,
+      end: this.pos
+    };
+    this.tokens.push(token);
+    return token;
+  }
+  
+  private reportError(message: string, line: number, column: number, suggestions?: string[]): void {
+    this.errors.push({
+      message,
+      line,
+      column,
+      severity: 'error',
+      context: this.sourceLines[line - 1],
+      suggestions
+    });
+  }
+  
+  private scanBlockComment(start: number, line: number, column: number): void {
+    this.advance(2);
+    
+    while (this.pos < this.source.length && !(this.source[this.pos] === '*' && this.peek(1) === '/')) {
+      this.advance();
+    }
+    
+    if (this.pos < this.source.length) {
+      this.advance(2);
+    } else {
+      // A block comment that never closes swallows the rest of the file
+      this.reportError('Unterminated block comment', line, column, ['Close the comment with */']);
+    }
+    
+    this.addToken('COMMENT', start, line, column);
+  }
+  
+  // Numbers are scanned loosely (any digits and suffix letters, like a C preprocessing number)
+  // and validated afterwards so malformed ones produce a precise diagnostic
+  private scanNumber(start: number, line: number, column: number): void {
+    this.advance(this.source[this.pos] === '.' ? 2 : 1);
+    
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+      if ('eEpP'.includes(ch) && (this.peek(1) === '+' || this.peek(1) === '-')) {
+        this.advance(2);
+      } else if (isIdentifierPart(ch) || ch === '.') {
+        this.advance();
+      } else {
+        break;
+      }
+    }
+    
+    const token = this.addToken('NUMBER', start, line, column);
+    const decoded = this.decodeNumberLiteral(token.value);
+    decoded.errors.forEach(error => {
+      this.reportError(error.message, line, column + error.offset, error.suggestions);
+    });
+    token.literal = decoded.value;
+  }
+  
+  // Strings and character constants stop at the closing quote or at the end of the line
+  private scanQuoted(quote: string, start: number, line: number, column: number): void {
+    this.advance();
+    
+    while (this.pos < this.source.length && this.source[this.pos] !== quote && this.source[this.pos] !== '\n') {
+      if (this.source[this.pos] === '\\') this.advance();
+      this.advance();
+    }
+    if (this.source[this.pos] === quote) this.advance();
+    
+    const token = this.addToken(quote === '"' ? 'STRING' : 'CHAR', start, line, column);
+    const decoded = this.decodeQuotedLiteral(token.value);
+    decoded.errors.forEach(error => {
+      this.reportError(error.message, line, column + error.offset, error.suggestions);
+    });
+    
+    if (token.type === 'STRING') {
+      token.literal = decoded.value;
+      return;
+    }
+    
+    if (decoded.value.length === 0 && decoded.errors.length === 0) {
+      this.reportError('Empty character constant', line, column, ["Use '\\0' for the null character"]);
+    } else if (decoded.value.length > 1) {
+      this.errors.push({
+        message: `Warning: Multi-character character constant ${token.value}`,
+        line,
+        column,
+        severity: 'warning',
+        context: this.sourceLines[line - 1],
+        suggestions: ['Use double quotes for a string literal']
+      });
+    }
+    token.literal = decoded.value.length > 0 ? decoded.value.charCodeAt(0) : 0;
+  }
+  
+  // Helper to decode a string or character literal, including its escape sequences
+  private decodeQuotedLiteral(text: string): { value: string, errors: LiteralError[] } {
+    const quote = text[0];
+    const errors: LiteralError[] = [];
+    
+    // The literal is closed if walking past escapes ends exactly on a matching quote
+    let end = 1;
+    while (end < text.length && text[end] !== quote) {
+      end += text[end] === '\\' ? 2 : 1;
+    }
+    const closed = end === text.length - 1;
+    const body = closed ? text.slice(1, -1) : text.slice(1);
+    
+    if (!closed) {
+      errors.push({
+        message: quote === '"' ? 'Unterminated string literal' : 'Unterminated character constant',
+        offset: 0,
+        suggestions: [`Add the closing ${quote} before the end of the line`]
+      });
+    }
+    
+    const simpleEscapes: { [escape: string]: string } = {
+      'n': '\n', 't': '\t', 'r': '\r', '0': '\0', 'a': '\x07', 'b': '\b',
+      'f': '\f', 'v': '\v', '\\': '\\', '\'': '\'', '"': '"', '?': '?'
+    };
+    
+    let value = '';
+    let i = 0;
+    
+    while (i < body.length) {
+      if (body[i] !== '\\') {
+        value += body[i++];
+        continue;
+      }
+      
+      const escapeOffset = i + 1;
+      const next = body[i + 1];
+      
+      if (next === '\n') {
+        // Line continuation inside a literal
+        i += 2;
+      } else if (next !== undefined && /[0-7]/.test(next)) {
+        const digits = /^[0-7]{1,3}/.exec(body.slice(i + 1))![0];
+        value += String.fromCharCode(parseInt(digits, 8));
+        i += 1 + digits.length;
+      } else if (next === 'x') {
+        const digits = /^[0-9a-fA-F]*/.exec(body.slice(i + 2))![0];
+        if (digits.length === 0) {
+          errors.push({
+            message: '\\x used with no following hex digits',
+            offset: escapeOffset,
+            suggestions: ['Write the character code in hex, e.g. \\x41']
+          });
+        } else {
+          value += String.fromCharCode(parseInt(digits, 16));
+        }
+        i += 2 + digits.length;
+      } else if (next !== undefined && next in simpleEscapes) {
+        value += simpleEscapes[next];
+        i += 2;
+      } else {
+        errors.push({
+          message: `Unknown escape sequence '\\${next ?? ''}'`,
+          offset: escapeOffset,
+          suggestions: ['Use \\\\ for a literal backslash']
+        });
+        value += next ?? '';
+        i += 2;
+      }
+    }
+    
+    return { value, errors };
+  }
+  
+  // Helper to decode an integer or floating constant (decimal, octal, hex, with suffixes)
+  private decodeNumberLiteral(text: string): { value: number, errors: LiteralError[] } {
+    const errors: LiteralError[] = [];
+    const invalid = (message: string, offset: number, suggestions?: string[]) => {
+      errors.push({ message, offset, suggestions });
+      return { value: 0, errors };
+    };
+    
+    // Hexadecimal integer
+    const hex = /^0[xX]([0-9a-fA-F]*)(.*)$/.exec(text);
+    if (hex) {
+      if (hex[1].length === 0) {
+        return invalid(`Invalid hexadecimal constant '${text}'`, 0, ['Add hex digits after 0x']);
+      }
+      if (!/^([uU](l|L|ll|LL)?|(l|L|ll|LL)[uU]?)?$/.test(hex[2])) {
+        return invalid(`Invalid suffix '${hex[2]}' on integer constant`, 2 + hex[1].length);
+      }
+      return { value: parseInt(hex[1], 16), errors };
+    }
+    
+    // Floating constant: needs a decimal point or an exponent
+    const float = /^(\d*\.\d*|\d+)([eE][+-]?\d*)?(.*)$/.exec(text)!;
+    const [, mantissa, exponent = '', suffix] = float;
+    if (mantissa.includes('.') || exponent) {
+      if (exponent && !/\d$/.test(exponent)) {
+        return invalid('Exponent has no digits', mantissa.length, ['Write the exponent as e.g. 1e10']);
+      }
+      if (!/^[fFlL]?$/.test(suffix)) {
+        return invalid(`Invalid suffix '${suffix}' on floating constant`, mantissa.length + exponent.length);
+      }
+      return { value: parseFloat(mantissa + exponent), errors };
+    }
+    
+    // Decimal or octal integer
+    if (!/^([uU](l|L|ll|LL)?|(l|L|ll|LL)[uU]?)?$/.test(suffix)) {
+      return invalid(`Invalid suffix '${suffix}' on integer constant`, mantissa.length);
+    }
+    if (mantissa.length > 1 && mantissa[0] === '0') {
+      const badDigit = mantissa.search(/[89]/);
+      if (badDigit >= 0) {
+        return invalid(`Invalid digit '${mantissa[badDigit]}' in octal constant`, badDigit, [
+          'Remove the leading 0 to write a decimal number'
+        ]);
+      }
+      return { value: parseInt(mantissa, 8), errors };
+    }
+    return { value: parseInt(mantissa, 10), errors };
+  }
+  
+}
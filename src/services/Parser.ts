@@ -0,0 +1,1284 @@
+import { Token, ParseTreeNode, ParseEvent, CompilerError, SourcePosition, SourceSpan } from '../types/compiler';
+import { isDeclarationSpecifier, TYPE_QUALIFIERS, TYPE_SPECIFIERS } from './keywords';
+import { LIBRARY_TYPEDEFS } from './library';
+
+// Raised when the token stream does not match the grammar
+export class ParseError extends Error {
+  line: number;
+  column: number;
+  
+  constructor(message: string, token: Token | undefined) {
+    super(message);
+    this.name = 'ParseError';
+    this.line = token ? token.line : 1;
+    this.column = token ? token.column : 1;
+  }
+}
+
+// Binary operator precedence levels, loosest binding first. Every level is left associative.
+const BINARY_LEVELS: string[][] = [
+  ['||'],
+  ['&&'],
+  ['|'],
+  ['^'],
+  ['&'],
+  ['==', '!='],
+  ['<', '>', '<=', '>='],
+  ['<<', '>>'],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+// Grammar rule of each binary precedence level, named as in the C standard
+const BINARY_RULES = [
+  'logical_or_expression',
+  'logical_and_expression',
+  'inclusive_or_expression',
+  'exclusive_or_expression',
+  'and_expression',
+  'equality_expression',
+  'relational_expression',
+  'shift_expression',
+  'additive_expression',
+  'multiplicative_expression'
+];
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=']);
+const UNARY_OPERATORS = new Set(['++', '--', '+', '-', '!', '~', '*', '&']);
+const TAG_KEYWORDS = new Set(['struct', 'union', 'enum']);
+
+const startOf = (token: Token): SourcePosition => ({ line: token.line, column: token.column, offset: token.start });
+const endOf = (token: Token): SourcePosition => ({
+  line: token.line,
+  column: token.column + (token.end - token.start),
+  offset: token.end
+});
+
+// Span from the start of `first` to the end of `last`. When `last` comes before `first` nothing was
+// consumed, and the span is empty at the start of `first`.
+export const spanBetween = (first: Token | undefined, last: Token | undefined): SourceSpan => {
+  if (first && (!last || last.start < first.start)) {
+    return { start: startOf(first), end: startOf(first) };
+  }
+  if (!first && last) {
+    return { start: endOf(last), end: endOf(last) };
+  }
+  if (!first || !last) {
+    const origin = { line: 1, column: 1, offset: 0 };
+    return { start: origin, end: origin };
+  }
+  return { start: startOf(first), end: endOf(last) };
+};
+
+const isEmptySpan = (span: SourceSpan): boolean => span.start.offset === span.end.offset;
+
+const isNode = (value: unknown): value is ParseTreeNode =>
+  typeof value === 'object' && value !== null && 'children' in value && 'span' in value;
+
+// Recursive-descent parser for the supported C subset. Each parse method corresponds to one
+// grammar rule; expressions get one method per precedence level so the tree reflects C precedence.
+// Besides the abstract syntax tree it builds the concrete parse tree: one node per rule applied
+// and one leaf per token, with every node linked to its counterpart in the other tree.
+export class Parser {
+  private readonly tokens: Token[];
+  private pos = 0;
+  private nodeId = 0;
+  // Names introduced by typedef, starting with those of the standard headers. C scopes them like
+  // variables; one set is enough for this subset.
+  private typedefNames = new Set<string>(LIBRARY_TYPEDEFS.keys());
+  // struct, union and enum definitions met while reading declaration specifiers
+  private pendingDefinitions: ParseTreeNode[] = [];
+  private anonymousCount = 0;
+  private errors: CompilerError[] = [];
+  // Rules of the concrete tree that are being parsed, innermost last
+  private ruleStack: ParseTreeNode[] = [];
+  private concreteId = 0;
+  private terminals = new Map<Token, ParseTreeNode>();
+  // Everything the parser does, in order, for replaying the parse. Token indices are into `tokens`.
+  private log: ParseEvent[] = [];
+  
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+  
+  // Syntax errors do not stop the parser: each one is reported and the broken region becomes
+  // an ERROR node, so one compile can report several errors
+  parse(): { parseTree: ParseTreeNode, concreteTree: ParseTreeNode, log: ParseEvent[], errors: CompilerError[] } {
+    this.pos = 0;
+    this.nodeId = 0;
+    this.typedefNames = new Set(LIBRARY_TYPEDEFS.keys());
+    this.pendingDefinitions = [];
+    this.anonymousCount = 0;
+    this.errors = [];
+    this.concreteId = 0;
+    this.terminals = new Map();
+    this.log = [];
+    
+    // translation_unit: (function_definition | declaration)*
+    const concreteRoot = this.createConcreteNode('translation_unit');
+    this.ruleStack = [concreteRoot];
+    const translationUnit = this.createNode('TRANSLATION_UNIT');
+    translationUnit.counterpart = concreteRoot.id;
+    concreteRoot.counterpart = translationUnit.id;
+    
+    while (!this.isAtEnd()) {
+      if (this.match(';')) continue;
+      
+      translationUnit.children.push(...this.parseRecoverable(() => {
+        if (this.isFunctionDefinition()) {
+          const functionNode = this.parseFunctionDefinition();
+          return [...this.takePendingDefinitions(), functionNode];
+        }
+        if (this.isDeclarationStart()) {
+          // Global variables, prototypes and type definitions
+          return this.parseDeclaration();
+        }
+        throw this.errorAtCurrent('Expected a declaration or function definition');
+      }));
+    }
+    
+    this.widenSpans(translationUnit);
+    this.coverChildren(concreteRoot);
+    return { parseTree: translationUnit, concreteTree: concreteRoot, log: this.log, errors: this.errors };
+  }
+  
+  // Token helpers
+  
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+  
+  private isAtEnd(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+  
+  // True when the current token is the given keyword, operator or punctuation
+  private check(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.value === value && token.type !== 'STRING' && token.type !== 'CHAR';
+  }
+  
+  private checkType(type: string, offset = 0): boolean {
+    return this.peek(offset)?.type === type;
+  }
+  
+  private advance(): Token {
+    const token = this.tokens[this.pos];
+    if (!token) {
+      throw new ParseError('Unexpected end of input', this.tokens[this.tokens.length - 1]);
+    }
+    const terminal = this.createTerminal(token);
+    this.record('consume', terminal.id, token.value);
+    this.pos++;
+    this.currentRule().children.push(terminal);
+    return token;
+  }
+  
+  private match(value: string): boolean {
+    if (this.check(value)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+  
+  private expect(value: string, context: string): Token {
+    if (this.check(value)) {
+      return this.advance();
+    }
+    
+    const error = this.errorAtCurrent(`Expected '${value}' ${context}`);
+    const previous = this.tokens[this.pos - 1];
+    if (value === ';' && previous) {
+      // A missing ';' belongs right after the previous token, not at the next one
+      error.line = previous.line;
+      error.column = previous.column + (previous.end - previous.start);
+      
+      // The usual slip is a forgotten ';' at the end of a line: report it and carry on as if it were there
+      if (!this.isAtEnd() && this.peek()!.line > previous.line) {
+        this.reportError(error);
+        return previous;
+      }
+    }
+    throw error;
+  }
+  
+  private expectIdentifier(context: string): Token {
+    if (this.checkType('IDENTIFIER')) {
+      return this.advance();
+    }
+    throw this.errorAtCurrent(`Expected identifier ${context}`);
+  }
+  
+  private errorAtCurrent(message: string): ParseError {
+    const token = this.peek();
+    const found = token ? ` but found '${token.value}'` : ' but reached the end of input';
+    return new ParseError(message + found, token ?? this.tokens[this.tokens.length - 1]);
+  }
+  
+  private reportError(error: ParseError): void {
+    // One mistake often derails the parser at the same token more than once; report it once
+    const last = this.errors[this.errors.length - 1];
+    if (last && last.line === error.line && last.column === error.column) return;
+    
+    this.errors.push({ message: error.message, line: error.line, column: error.column, severity: 'error' });
+  }
+  
+  // Runs one parse rule. On a syntax error the error is reported, the parser skips ahead in panic
+  // mode and the skipped tokens are returned as an ERROR node in place of the rule's nodes.
+  private parseRecoverable(parseRule: () => ParseTreeNode[]): ParseTreeNode[] {
+    const start = this.pos;
+    const depth = this.ruleStack.length;
+    
+    try {
+      return parseRule();
+    } catch (e) {
+      if (!(e instanceof ParseError)) throw e;
+      
+      this.reportError(e);
+      this.pendingDefinitions = [];
+      this.ruleStack.length = depth;
+      const failedAt = this.pos;
+      this.synchronize(start);
+      
+      // In the concrete tree the rules that were cut short give way to an ERROR node holding the skipped tokens
+      const rule = this.currentRule();
+      const startOffset = this.tokens[start]?.start ?? Infinity;
+      rule.children = rule.children.filter(child => child.span.start.offset < startOffset);
+      const concreteError = this.createConcreteNode('ERROR', undefined, this.tokens.slice(start, this.pos).map(token => this.createTerminal(token)));
+      rule.children.push(concreteError);
+      this.record('recover', concreteError.id, e.message, failedAt);
+      
+      const skipped = this.tokens.slice(start, this.pos).map(token => token.value).join(' ');
+      const error = this.createNode('ERROR', skipped, [], this.tokens[start]);
+      error.counterpart = concreteError.id;
+      concreteError.counterpart = error.id;
+      return [error];
+    }
+  }
+  
+  // Helper to log a parser action at the current token, or at the given one
+  private record(kind: ParseEvent['kind'], nodeId: string, detail: string, token = this.pos): void {
+    this.log.push({ kind, token, nodeId, detail });
+  }
+  
+  // Concrete tree
+  
+  private currentRule(): ParseTreeNode {
+    return this.ruleStack[this.ruleStack.length - 1];
+  }
+  
+  // Applies a grammar rule: its tokens and sub-rules are collected under a node named after the rule.
+  // A rule that matched nothing, such as an absent pointer, is left out of the tree.
+  private rule<T>(name: string, parse: () => T): T {
+    const node = this.createConcreteNode(name);
+    this.record('enter', node.id, name);
+    this.ruleStack.push(node);
+    const result = parse();
+    this.ruleStack.pop();
+    
+    if (node.children.length > 0) {
+      this.coverChildren(node);
+      const produced = Array.isArray(result) ? result[0] : result;
+      if (isNode(produced)) {
+        node.counterpart = produced.id;
+      }
+      this.currentRule().children.push(node);
+    }
+    
+    return result;
+  }
+  
+  private createConcreteNode(type: string, value?: string, children: ParseTreeNode[] = []): ParseTreeNode {
+    const node: ParseTreeNode = {
+      id: `cst_${this.concreteId++}`,
+      type,
+      span: spanBetween(undefined, undefined),
+      children
+    };
+    if (value !== undefined) {
+      node.value = value;
+    }
+    this.coverChildren(node);
+    return node;
+  }
+  
+  private createTerminal(token: Token): ParseTreeNode {
+    const terminal = this.createConcreteNode(token.type, token.value);
+    terminal.span = spanBetween(token, token);
+    this.terminals.set(token, terminal);
+    return terminal;
+  }
+  
+  // The parser has learnt that an identifier names a type; feed that back into the token stream
+  private markTypeName(token: Token): void {
+    token.type = 'TYPE_NAME';
+    const terminal = this.terminals.get(token);
+    if (terminal) {
+      terminal.type = 'TYPE_NAME';
+    }
+  }
+  
+  // Panic mode: skip past the next ';', or up to the '}' that closes the enclosing block.
+  // Any block opened on the way, including one the failed rule already entered, is skipped whole.
+  private synchronize(start: number): void {
+    let depth = 0;
+    for (let i = start; i < this.pos; i++) {
+      if (this.tokens[i].value === '{') depth++;
+      if (this.tokens[i].value === '}') depth--;
+    }
+    depth = Math.max(depth, 0);
+    
+    while (!this.isAtEnd()) {
+      const token = this.peek()!;
+      if (token.value === '}' && depth === 0) break;
+      
+      this.advance();
+      if (token.value === ';' && depth === 0) break;
+      if (token.value === '{') depth++;
+      if (token.value === '}' && --depth === 0) break;
+    }
+    
+    // Always make progress, even when the error is at a '}' with no block to close
+    if (this.pos === start && !this.isAtEnd()) {
+      this.advance();
+    }
+  }
+  
+  private previous(): Token | undefined {
+    return this.tokens[this.pos - 1];
+  }
+  
+  // A node spans from `first` to the token just consumed. By default `first` is that same token, which
+  // suits leaves; nodes built from children are widened to cover them by widenSpans.
+  // A leaf for the token just consumed corresponds to its terminal, any other node to the current rule.
+  private createNode(type: string, value?: string, children: ParseTreeNode[] = [], first = this.previous()): ParseTreeNode {
+    const node: ParseTreeNode = {
+      id: `node_${this.nodeId++}`,
+      type,
+      span: spanBetween(first, this.previous()),
+      children
+    };
+    if (value !== undefined) {
+      node.value = value;
+    }
+    
+    const terminal = first && first === this.previous() && children.length === 0 && value === first.value
+      ? this.terminals.get(first)
+      : undefined;
+    if (terminal) {
+      this.linkTerminal(node, terminal);
+    } else {
+      node.counterpart = this.currentRule().id;
+    }
+    this.record('node', node.id, type);
+    return node;
+  }
+  
+  // Node for a single token that was consumed earlier, such as a declarator name
+  private createLeaf(type: string, token: Token): ParseTreeNode {
+    const node = this.createNode(type, token.value);
+    node.span = spanBetween(token, token);
+    
+    const terminal = this.terminals.get(token);
+    if (terminal) {
+      this.linkTerminal(node, terminal);
+    }
+    return node;
+  }
+  
+  // A terminal stands for exactly one leaf; rules get their counterpart from what they return
+  private linkTerminal(node: ParseTreeNode, terminal: ParseTreeNode): void {
+    node.counterpart = terminal.id;
+    terminal.counterpart = node.id;
+  }
+  
+  // Extend a node created before its closing token to end at the token just consumed
+  private closeSpan(node: ParseTreeNode): void {
+    const last = this.previous();
+    if (last && last.end > node.span.end.offset) {
+      node.span = { ...node.span, end: endOf(last) };
+    }
+  }
+  
+  // Grow every node's span to cover its children; many nodes are filled in after they are created
+  private widenSpans(node: ParseTreeNode): void {
+    node.children.forEach(child => this.widenSpans(child));
+    this.coverChildren(node);
+  }
+  
+  // Grow one node's span to cover its direct children
+  private coverChildren(node: ParseTreeNode): void {
+    node.children.forEach(child => {
+      if (isEmptySpan(child.span)) return;
+      
+      if (isEmptySpan(node.span)) {
+        node.span = { ...child.span };
+        return;
+      }
+      if (child.span.start.offset < node.span.start.offset) {
+        node.span = { ...node.span, start: child.span.start };
+      }
+      if (child.span.end.offset > node.span.end.offset) {
+        node.span = { ...node.span, end: child.span.end };
+      }
+    });
+  }
+
+  
+  private isDeclarationStart(offset = 0): boolean {
+    const token = this.peek(offset);
+    if (!token) return false;
+    return token.type === 'KEYWORD' ? isDeclarationSpecifier(token.value) : this.isTypedefName(offset);
+  }
+  
+  private isTypedefName(offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && (token.type === 'IDENTIFIER' || token.type === 'TYPE_NAME') && this.typedefNames.has(token.value);
+  }
+  
+  private isTagKeyword(offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === 'KEYWORD' && TAG_KEYWORDS.has(token.value);
+  }
+  
+  private takePendingDefinitions(): ParseTreeNode[] {
+    const definitions = this.pendingDefinitions;
+    this.pendingDefinitions = [];
+    return definitions;
+  }
+  
+  // Declarations
+  
+  // declaration_specifiers pointer* IDENTIFIER '(' ... ')' '{'
+  private isFunctionDefinition(): boolean {
+    let offset = 0;
+    while (this.isDeclarationStart(offset)) {
+      if (this.isTagKeyword(offset)) {
+        offset++;
+        if (this.checkType('IDENTIFIER', offset)) offset++;
+        // A tag with a body is a type definition, not a return type
+        if (this.check('{', offset)) return false;
+      } else {
+        offset++;
+      }
+    }
+    if (offset === 0) return false;
+    while (this.check('*', offset) || this.isTypeQualifier(offset)) offset++;
+    
+    if (!this.checkType('IDENTIFIER', offset) || !this.check('(', offset + 1)) {
+      return false;
+    }
+    
+    // Find the matching ')' and make sure a body follows
+    let depth = 0;
+    for (let i = this.pos + offset + 1; i < this.tokens.length; i++) {
+      if (this.tokens[i].value === '(') depth++;
+      if (this.tokens[i].value === ')' && --depth === 0) {
+        return this.tokens[i + 1]?.value === '{';
+      }
+    }
+    return false;
+  }
+  
+  private isTypeQualifier(offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === 'KEYWORD' && TYPE_QUALIFIERS.has(token.value);
+  }
+  
+  // declaration_specifiers: (type_specifier | type_qualifier | storage_class_specifier)+
+  // type_specifier: keyword | struct_or_union_specifier | enum_specifier | TYPE_NAME
+  private parseDeclarationSpecifiers(): string {
+    return this.rule('declaration_specifiers', () => {
+      const words: string[] = [];
+      let hasTypeSpecifier = false;
+      
+      for (;;) {
+        const token = this.peek();
+        
+        if (this.isTagKeyword()) {
+          words.push(this.parseTagSpecifier());
+          hasTypeSpecifier = true;
+        } else if (token && token.type === 'KEYWORD' && isDeclarationSpecifier(token.value)) {
+          words.push(this.advance().value);
+          hasTypeSpecifier = hasTypeSpecifier || TYPE_SPECIFIERS.has(token.value);
+        } else if (!hasTypeSpecifier && this.isTypedefName()) {
+          // Feed the parser's knowledge back into the token stream: this identifier names a type
+          const typeName = this.advance();
+          this.markTypeName(typeName);
+          words.push(typeName.value);
+          hasTypeSpecifier = true;
+        } else {
+          break;
+        }
+      }
+      
+      if (words.length === 0) {
+        throw this.errorAtCurrent('Expected a type');
+      }
+      
+      return words.join(' ');
+    });
+  }
+  
+  // struct_or_union_specifier: ('struct' | 'union') IDENTIFIER? ('{' struct_declaration* '}')?
+  // enum_specifier: 'enum' IDENTIFIER? ('{' enumerator (',' enumerator)* ','? '}')?
+  // Returns the type name, e.g. `struct node`; a definition body is queued as a definition node.
+  private parseTagSpecifier(): string {
+    return this.rule(this.check('enum') ? 'enum_specifier' : 'struct_or_union_specifier', () => {
+      const keywordToken = this.advance();
+      const keyword = keywordToken.value;
+      const tag = this.checkType('IDENTIFIER') ? this.advance().value : null;
+      
+      if (!this.check('{')) {
+        if (!tag) {
+          throw this.errorAtCurrent(`Expected a tag name or '{' after '${keyword}'`);
+        }
+        return `${keyword} ${tag}`;
+      }
+      
+      const name = tag ?? `(anonymous ${++this.anonymousCount})`;
+      const definition = this.createNode(`${keyword.toUpperCase()}_DEFINITION`, name, [], keywordToken);
+      this.advance();
+      
+      if (keyword === 'enum') {
+        while (!this.check('}')) {
+          const enumerator = this.createNode('ENUMERATOR', this.expectIdentifier('in enum').value);
+          if (this.match('=')) {
+            enumerator.children.push(this.parseConditionalExpression());
+          }
+          definition.children.push(enumerator);
+          if (!this.match(',')) break;
+        }
+      } else {
+        // struct_declaration: declaration_specifiers declarator (',' declarator)* ';'
+        while (!this.check('}')) {
+          if (this.isAtEnd()) {
+            throw this.errorAtCurrent(`Expected '}' to close the ${keyword} definition`);
+          }
+          const fieldStart = this.peek();
+          const baseType = this.parseDeclarationSpecifiers();
+          do {
+            const declarator = this.parseDeclarator(baseType);
+            definition.children.push(this.createNode('FIELD', undefined, [
+              this.createNode('TYPE', declarator.type, [], fieldStart),
+              this.createLeaf('IDENTIFIER', declarator.name!)
+            ], fieldStart));
+          } while (this.match(','));
+          this.expect(';', 'after the member declaration');
+        }
+      }
+      
+      this.expect('}', `to close the ${keyword} definition`);
+      this.closeSpan(definition);
+      this.pendingDefinitions.push(definition);
+      return `${keyword} ${name}`;
+    });
+  }
+  
+  // pointer: ('*' type_qualifier*)*
+  // Each level is appended to the base type, e.g. `int` becomes `int*` or `char* const`
+  private parsePointers(baseType: string): string {
+    return this.rule('pointer', () => {
+      let type = baseType;
+      
+      while (this.match('*')) {
+        type += '*';
+        while (this.isTypeQualifier()) {
+          type += ` ${this.advance().value}`;
+        }
+      }
+      
+      return type;
+    });
+  }
+  
+  // declarator: pointer IDENTIFIER ('[' conditional_expression? ']')*
+  // Returns the name and the fully derived type, e.g. `int* p` or `int[3][4] grid`.
+  // Abstract declarators (no name) are allowed for parameters of prototypes.
+  private parseDeclarator(baseType: string, allowAbstract = false): { name?: Token, type: string } {
+    return this.rule('declarator', () => {
+      let type = this.parsePointers(baseType);
+      let name: Token | undefined;
+      
+      if (this.checkType('IDENTIFIER')) {
+        name = this.advance();
+      } else if (!allowAbstract) {
+        throw this.errorAtCurrent('Expected identifier in declarator');
+      }
+      
+      while (this.match('[')) {
+        const size = this.check(']') ? '' : formatExpression(this.parseConditionalExpression());
+        this.expect(']', 'after the array size');
+        type += `[${size}]`;
+      }
+      
+      return { name, type };
+    });
+  }
+  
+  // function_definition: declaration_specifiers pointer IDENTIFIER '(' parameter_list ')' compound_statement
+  private parseFunctionDefinition(): ParseTreeNode {
+    return this.rule('function_definition', () => {
+      const start = this.peek();
+      const type = this.createNode('TYPE', this.parsePointers(this.parseDeclarationSpecifiers()), [], start);
+      const name = this.expectIdentifier('for the function name');
+      
+      this.expect('(', 'after the function name');
+      const parameters = this.parseParameterList();
+      this.expect(')', 'after the parameter list');
+      
+      const bodyStart = this.peek();
+      const body = this.createNode('FUNCTION_BODY', undefined, this.parseCompoundStatement(), bodyStart);
+      
+      return this.createNode('FUNCTION_DECLARATION', undefined, [
+        type,
+        this.createLeaf('IDENTIFIER', name),
+        parameters,
+        body
+      ], start);
+    });
+  }
+  
+  // parameter_list: 'void' | parameter (',' parameter)*
+  // parameter: declaration_specifiers declarator
+  private parseParameterList(): ParseTreeNode {
+    return this.rule('parameter_list', () => {
+      const parameters = this.createNode('PARAMETERS', undefined, [], this.peek());
+      
+      if (this.check(')')) {
+        return parameters;
+      }
+      if (this.check('void') && this.check(')', 1)) {
+        this.advance();
+        return parameters;
+      }
+      
+      do {
+        const parameterStart = this.peek();
+        const declarator = this.parseDeclarator(this.parseDeclarationSpecifiers(), true);
+        const parameter = this.createNode('PARAMETER', undefined, [
+          this.createNode('TYPE', declarator.type, [], parameterStart)
+        ], parameterStart);
+        
+        if (declarator.name) {
+          parameter.children.push(this.createLeaf('IDENTIFIER', declarator.name));
+        }
+        
+        parameters.children.push(parameter);
+      } while (this.match(','));
+      
+      return parameters;
+    });
+  }
+  
+  // declaration: declaration_specifiers (init_declarator (',' init_declarator)*)? ';'
+  // init_declarator: declarator ('(' parameter_list ')' | '=' initializer)?
+  // Every declarator becomes its own VARIABLE_DECLARATION carrying its full derived type,
+  // a FUNCTION_PROTOTYPE when a parameter list follows the name, or a TYPEDEF node when the
+  // specifiers include 'typedef'. Type definitions come first.
+  private parseDeclaration(): ParseTreeNode[] {
+    return this.rule('declaration', () => {
+      // Every declarator's nodes start at the specifiers, as `int a, b` declares both with `int`
+      const start = this.peek();
+      const specifiers = this.parseDeclarationSpecifiers();
+      const declarations: ParseTreeNode[] = this.takePendingDefinitions();
+      
+      // `struct point { ... };` declares only the tag
+      if (this.match(';')) {
+        return declarations;
+      }
+      
+      const isTypedef = specifiers.split(' ').includes('typedef');
+      const baseType = isTypedef ? specifiers.replace(/\btypedef\b\s*/, '') : specifiers;
+      
+      do {
+        const declarator = this.parseDeclarator(baseType);
+        
+        if (isTypedef) {
+          // As in C, the name is an identifier in its own declarator and a type name after it
+          this.typedefNames.add(declarator.name!.value);
+          declarations.push(this.createNode('TYPEDEF', declarator.name!.value, [
+            this.createNode('TYPE', declarator.type, [], start)
+          ], start));
+          continue;
+        }
+        
+        if (this.match('(')) {
+          const parameters = this.parseParameterList();
+          this.expect(')', 'after the parameter list');
+          declarations.push(this.createNode('FUNCTION_PROTOTYPE', undefined, [
+            this.createNode('TYPE', declarator.type, [], start),
+            this.createLeaf('IDENTIFIER', declarator.name!),
+            parameters
+          ], start));
+          continue;
+        }
+        
+        const typeNode = this.createNode('TYPE', declarator.type, [], start);
+        const declaration = this.createNode('VARIABLE_DECLARATION', undefined, [
+          typeNode,
+          this.createLeaf('IDENTIFIER', declarator.name!)
+        ], start);
+        
+        if (this.match('=')) {
+          const initializer = this.parseInitializer();
+          declaration.children.push(initializer);
+          
+          // An unsized array takes its length from the initializer
+          if (typeNode.value!.endsWith('[]')) {
+            const length = initializer.type === 'INITIALIZER_LIST'
+              ? initializer.children.length
+              : typeof initializer.literal === 'string' ? initializer.literal.length + 1 : null;
+            if (length !== null) {
+              typeNode.value = `${typeNode.value!.slice(0, -2)}[${length}]`;
+            }
+          }
+        }
+        
+        declarations.push(declaration);
+      } while (this.match(','));
+      
+      this.expect(';', 'after declaration');
+      return declarations;
+    });
+  }
+  
+  // initializer: assignment_expression | '{' initializer (',' initializer)* ','? '}'
+  private parseInitializer(): ParseTreeNode {
+    return this.rule('initializer', () => {
+      if (!this.match('{')) {
+        return this.parseAssignmentExpression();
+      }
+      
+      const list = this.createNode('INITIALIZER_LIST');
+      while (!this.check('}')) {
+        list.children.push(this.parseInitializer());
+        if (!this.match(',')) break;
+      }
+      this.expect('}', 'to close the initializer list');
+      this.closeSpan(list);
+      
+      return list;
+    });
+  }
+  
+  // Statements
+  
+  // compound_statement: '{' block_item* '}'
+  private parseCompoundStatement(): ParseTreeNode[] {
+    return this.rule('compound_statement', () => {
+      this.expect('{', 'to open a block');
+      const items: ParseTreeNode[] = [];
+      
+      while (!this.check('}')) {
+        if (this.isAtEnd()) {
+          // Keep what was parsed; the block simply ends with the input
+          this.reportError(this.errorAtCurrent("Expected '}' to close the block"));
+          return items;
+        }
+        items.push(...this.parseRecoverable(() => this.parseBlockItem()));
+      }
+      
+      this.advance();
+      return items;
+    });
+  }
+  
+  // block_item: declaration | statement
+  private parseBlockItem(): ParseTreeNode[] {
+    return this.rule('block_item', () => this.isDeclarationStart() ? this.parseDeclaration() : [this.parseStatement()]);
+  }
+  
+  private parseStatement(): ParseTreeNode {
+    return this.rule('statement', () => {
+      const token = this.peek();
+      
+      if (this.check('{')) {
+        return this.createNode('BLOCK', undefined, this.parseCompoundStatement(), token);
+      }
+      if (this.check('if')) {
+        return this.parseIfStatement();
+      }
+      if (this.check('while')) {
+        return this.parseWhileStatement();
+      }
+      if (this.check('do')) {
+        return this.parseDoWhileStatement();
+      }
+      if (this.check('for')) {
+        return this.parseForStatement();
+      }
+      if (this.check('return')) {
+        return this.parseReturnStatement();
+      }
+      if (this.check('switch')) {
+        return this.parseSwitchStatement();
+      }
+      if (this.check('break') || this.check('continue')) {
+        this.advance();
+        this.expect(';', `after '${token!.value}'`);
+        return this.createNode(token!.value.toUpperCase(), undefined, [], token);
+      }
+      if (this.check('goto')) {
+        this.advance();
+        const label = this.expectIdentifier("after 'goto'");
+        this.expect(';', 'after goto statement');
+        return this.createNode('GOTO', label.value, [], token);
+      }
+      if (this.check('case') || this.check('default')) {
+        throw new ParseError(`'${token!.value}' label not within a switch statement`, token);
+      }
+      if (this.checkType('IDENTIFIER') && this.check(':', 1)) {
+        // labeled_statement: IDENTIFIER ':' statement
+        const label = this.advance();
+        this.advance();
+        return this.createNode('LABELED_STATEMENT', label.value, [this.parseStatement()], label);
+      }
+      if (this.check(';')) {
+        this.advance();
+        return this.createNode('EMPTY_STATEMENT');
+      }
+      
+      return this.parseExpressionStatement();
+    });
+  }
+  
+  // Statement bodies become a node listing statements: the items of a block or the single statement.
+  // Its span includes the braces.
+  private parseBody(type: string): ParseTreeNode {
+    const first = this.peek();
+    const statements = this.check('{')
+      ? this.rule('statement', () => this.parseCompoundStatement())
+      : [this.parseStatement()];
+    return this.createNode(type, undefined, statements, first);
+  }
+  
+  // if_statement: 'if' '(' expression ')' statement ('else' statement)?
+  private parseIfStatement(): ParseTreeNode {
+    return this.rule('if_statement', () => {
+      const start = this.advance();
+      this.expect('(', "after 'if'");
+      const condition = this.createNode('CONDITION', undefined, [this.parseExpression()]);
+      this.expect(')', 'after the condition');
+      
+      const ifNode = this.createNode('IF_STATEMENT', undefined, [
+        condition,
+        this.parseBody('IF_BODY')
+      ], start);
+      
+      // An else binds to the nearest if
+      if (this.match('else')) {
+        ifNode.children.push(this.parseBody('ELSE'));
+      }
+      
+      return ifNode;
+    });
+  }
+  
+  // while_statement: 'while' '(' expression ')' statement
+  private parseWhileStatement(): ParseTreeNode {
+    return this.rule('while_statement', () => {
+      const start = this.advance();
+      this.expect('(', "after 'while'");
+      const condition = this.createNode('CONDITION', undefined, [this.parseExpression()]);
+      this.expect(')', 'after the loop condition');
+      
+      return this.createNode('WHILE_STATEMENT', undefined, [
+        condition,
+        this.parseBody('LOOP_BODY')
+      ], start);
+    });
+  }
+  
+  // do_while_statement: 'do' statement 'while' '(' expression ')' ';'
+  private parseDoWhileStatement(): ParseTreeNode {
+    return this.rule('do_while_statement', () => {
+      const start = this.advance();
+      const body = this.parseBody('LOOP_BODY');
+      
+      this.expect('while', "after the body of a 'do' loop");
+      this.expect('(', "after 'while'");
+      const condition = this.createNode('CONDITION', undefined, [this.parseExpression()]);
+      this.expect(')', 'after the loop condition');
+      this.expect(';', "after 'do ... while (...)'");
+      
+      return this.createNode('DO_WHILE_STATEMENT', undefined, [body, condition], start);
+    });
+  }
+  
+  // for_statement: 'for' '(' (declaration | expression? ';') expression? ';' expression? ')' statement
+  // All three clauses are always present in the tree, empty when omitted.
+  private parseForStatement(): ParseTreeNode {
+    return this.rule('for_statement', () => {
+      const start = this.advance();
+      this.expect('(', "after 'for'");
+      
+      const init = this.createNode('FOR_INIT', undefined, [], this.peek());
+      if (this.isDeclarationStart()) {
+        init.children.push(...this.parseDeclaration());
+      } else {
+        if (!this.check(';')) {
+          init.children.push(this.parseExpression());
+        }
+        this.expect(';', "after the 'for' initialisation");
+      }
+      
+      const condition = this.createNode('CONDITION', undefined, [], this.peek());
+      if (!this.check(';')) {
+        condition.children.push(this.parseExpression());
+      }
+      this.expect(';', "after the 'for' condition");
+      
+      const update = this.createNode('FOR_UPDATE', undefined, [], this.peek());
+      if (!this.check(')')) {
+        update.children.push(this.parseExpression());
+      }
+      this.expect(')', "after the 'for' clauses");
+      
+      return this.createNode('FOR_STATEMENT', undefined, [
+        init,
+        condition,
+        update,
+        this.parseBody('LOOP_BODY')
+      ], start);
+    });
+  }
+  
+  // switch_statement: 'switch' '(' expression ')' '{' (case_label | default_label | block_item)* '}'
+  // The statements following a case label are grouped under that CASE (or DEFAULT) node.
+  private parseSwitchStatement(): ParseTreeNode {
+    return this.rule('switch_statement', () => {
+      const start = this.advance();
+      this.expect('(', "after 'switch'");
+      const condition = this.createNode('CONDITION', undefined, [this.parseExpression()]);
+      this.expect(')', 'after the switch expression');
+      
+      const body = this.createNode('SWITCH_BODY', undefined, [], this.peek());
+      let clause = body;
+      this.expect('{', 'to open the switch body');
+      
+      while (!this.check('}')) {
+        if (this.isAtEnd()) {
+          this.reportError(this.errorAtCurrent("Expected '}' to close the switch body"));
+          return this.createNode('SWITCH_STATEMENT', undefined, [condition, body], start);
+        }
+        
+        const label = this.peek();
+        if (this.match('case')) {
+          // case_label: 'case' constant_expression ':'
+          const value = this.parseConditionalExpression();
+          this.expect(':', 'after the case value');
+          clause = this.createNode('CASE', formatExpression(value), [value], label);
+          body.children.push(clause);
+        } else if (this.match('default')) {
+          this.expect(':', "after 'default'");
+          clause = this.createNode('DEFAULT', undefined, [], label);
+          body.children.push(clause);
+        } else {
+          clause.children.push(...this.parseRecoverable(() => this.parseBlockItem()));
+        }
+      }
+      
+      this.advance();
+      this.closeSpan(body);
+      return this.createNode('SWITCH_STATEMENT', undefined, [condition, body], start);
+    });
+  }
+  
+  // return_statement: 'return' expression? ';'
+  private parseReturnStatement(): ParseTreeNode {
+    return this.rule('return_statement', () => {
+      this.advance();
+      const returnNode = this.createNode('RETURN');
+      
+      if (!this.check(';')) {
+        returnNode.children.push(this.parseExpression());
+      }
+      
+      this.expect(';', 'after return statement');
+      this.closeSpan(returnNode);
+      return returnNode;
+    });
+  }
+  
+  // expression_statement: expression ';'
+  private parseExpressionStatement(): ParseTreeNode {
+    return this.rule('expression_statement', () => {
+      const expression = this.parseExpression();
+      this.expect(';', 'after expression');
+      return this.createNode('EXPRESSION_STATEMENT', undefined, [expression]);
+    });
+  }
+  
+  // Expressions
+  
+  // expression: assignment_expression (',' assignment_expression)*
+  private parseExpression(): ParseTreeNode {
+    return this.rule('expression', () => {
+      let expression = this.parseAssignmentExpression();
+      
+      while (this.match(',')) {
+        expression = this.createNode('COMMA_EXPRESSION', ',', [expression, this.parseAssignmentExpression()]);
+      }
+      
+      return expression;
+    });
+  }
+  
+  // assignment_expression: conditional_expression (assignment_operator assignment_expression)?
+  // Assignment is right associative, so the right-hand side recurses into this rule.
+  private parseAssignmentExpression(): ParseTreeNode {
+    return this.rule('assignment_expression', () => {
+      const target = this.parseConditionalExpression();
+      const operator = this.peek();
+      
+      if (operator && operator.type === 'OPERATOR' && ASSIGNMENT_OPERATORS.has(operator.value)) {
+        this.advance();
+        return this.createNode('ASSIGNMENT', operator.value, [target, this.parseAssignmentExpression()]);
+      }
+      
+      return target;
+    });
+  }
+  
+  // conditional_expression: logical_or_expression ('?' expression ':' conditional_expression)?
+  private parseConditionalExpression(): ParseTreeNode {
+    return this.rule('conditional_expression', () => {
+      const condition = this.parseBinaryExpression(0);
+      
+      if (this.match('?')) {
+        const whenTrue = this.parseExpression();
+        this.expect(':', 'in conditional expression');
+        const whenFalse = this.parseConditionalExpression();
+        return this.createNode('CONDITIONAL_EXPRESSION', '?:', [condition, whenTrue, whenFalse]);
+      }
+      
+      return condition;
+    });
+  }
+  
+  // One rule per precedence level: level_n: level_n+1 (operator level_n+1)*
+  private parseBinaryExpression(level: number): ParseTreeNode {
+    if (level >= BINARY_LEVELS.length) {
+      return this.parseCastExpression();
+    }
+    
+    return this.rule(BINARY_RULES[level], () => {
+      let left = this.parseBinaryExpression(level + 1);
+      
+      while (this.checkType('OPERATOR') && BINARY_LEVELS[level].includes(this.peek()!.value)) {
+        const operator = this.advance().value;
+        const right = this.parseBinaryExpression(level + 1);
+        left = this.createNode('BINARY_EXPRESSION', operator, [left, right]);
+      }
+      
+      return left;
+    });
+  }
+  
+  // cast_expression: '(' type_name ')' cast_expression | unary_expression
+  private parseCastExpression(): ParseTreeNode {
+    return this.rule('cast_expression', () => {
+      if (this.check('(') && this.isDeclarationStart(1)) {
+        const start = this.advance();
+        const type = this.parseTypeName();
+        this.expect(')', 'after the type in a cast');
+        return this.createNode('CAST_EXPRESSION', type, [this.parseCastExpression()], start);
+      }
+      
+      return this.parseUnaryExpression();
+    });
+  }
+  
+  // type_name: declaration_specifiers pointer
+  private parseTypeName(): string {
+    return this.rule('type_name', () => this.parsePointers(this.parseDeclarationSpecifiers()));
+  }
+  
+  // unary_expression: ('++' | '--') unary_expression | unary_operator cast_expression
+  //                 | 'sizeof' unary_expression | 'sizeof' '(' type_name ')' | postfix_expression
+  private parseUnaryExpression(): ParseTreeNode {
+    return this.rule('unary_expression', () => {
+      const token = this.peek();
+      
+      if (token && token.type === 'OPERATOR' && UNARY_OPERATORS.has(token.value)) {
+        this.advance();
+        const operand = token.value === '++' || token.value === '--'
+          ? this.parseUnaryExpression()
+          : this.parseCastExpression();
+        
+        // Pointer operators get their own node types
+        if (token.value === '&') {
+          return this.createNode('ADDRESS_OF', '&', [operand], token);
+        }
+        if (token.value === '*') {
+          return this.createNode('DEREFERENCE', '*', [operand], token);
+        }
+        return this.createNode('UNARY_EXPRESSION', token.value, [operand], token);
+      }
+      
+      if (this.check('sizeof')) {
+        this.advance();
+        if (this.check('(') && this.isDeclarationStart(1)) {
+          this.advance();
+          const type = this.parseTypeName();
+          this.expect(')', 'after the type in sizeof');
+          return this.createNode('SIZEOF_EXPRESSION', type, [], token);
+        }
+        return this.createNode('SIZEOF_EXPRESSION', undefined, [this.parseUnaryExpression()], token);
+      }
+      
+      return this.parsePostfixExpression();
+    });
+  }
+  
+  // postfix_expression: primary_expression
+  //   ('[' expression ']' | '(' argument_list? ')' | ('.' | '->') IDENTIFIER | '++' | '--')*
+  private parsePostfixExpression(): ParseTreeNode {
+    return this.rule('postfix_expression', () => {
+      let expression = this.parsePrimaryExpression();
+      
+      for (;;) {
+        if (this.match('[')) {
+          const index = this.parseExpression();
+          this.expect(']', 'after the array index');
+          expression = this.createNode('ARRAY_ACCESS', '[]', [expression, index]);
+        } else if (this.check('.') || this.check('->')) {
+          const operator = this.advance().value;
+          const member = this.expectIdentifier(`after '${operator}'`);
+          expression = this.createNode('MEMBER_ACCESS', operator, [expression, this.createLeaf('IDENTIFIER', member)]);
+        } else if (this.match('(')) {
+          const args = this.createNode('ARGUMENTS');
+          if (!this.check(')')) {
+            do {
+              args.children.push(this.parseAssignmentExpression());
+            } while (this.match(','));
+          }
+          this.expect(')', 'after the call arguments');
+          this.closeSpan(args);
+          expression = this.createNode('FUNCTION_CALL', undefined, [expression, args]);
+        } else if (this.check('++') || this.check('--')) {
+          expression = this.createNode('POSTFIX_EXPRESSION', this.advance().value, [expression]);
+        } else {
+          return expression;
+        }
+      }
+    });
+  }
+  
+  // primary_expression: IDENTIFIER | NUMBER | STRING+ | CHAR | '(' expression ')'
+  private parsePrimaryExpression(): ParseTreeNode {
+    return this.rule('primary_expression', () => {
+      const token = this.peek();
+      
+      if (!token) {
+        throw this.errorAtCurrent('Expected expression');
+      }
+      
+      switch (token.type) {
+        case 'IDENTIFIER':
+          this.advance();
+          return this.createNode(token.type, token.value);
+        case 'NUMBER':
+        case 'CHAR': {
+          this.advance();
+          const literal = this.createNode(token.type, token.value);
+          literal.literal = token.literal;
+          return literal;
+        }
+        case 'STRING': {
+          // Adjacent string literals are concatenated
+          let value = this.advance().value;
+          let decoded = String(token.literal ?? '');
+          while (this.checkType('STRING')) {
+            const next = this.advance();
+            value += ' ' + next.value;
+            decoded += String(next.literal ?? '');
+          }
+          const literal = this.createNode('STRING', value, [], token);
+          literal.literal = decoded;
+          return literal;
+        }
+      }
+      
+      if (this.match('(')) {
+        const expression = this.parseExpression();
+        this.expect(')', 'to close the parenthesised expression');
+        return expression;
+      }
+      
+      throw this.errorAtCurrent('Expected expression');
+    });
+  }
+}
+
+// Render an expression subtree back to C source, adding parentheses only where precedence needs them
+export const formatExpression = (node: ParseTreeNode): string => {
+  const [first, second, third] = node.children;
+  
+  switch (node.type) {
+    case 'IDENTIFIER':
+    case 'NUMBER':
+    case 'CHAR':
+    case 'STRING':
+      return node.value ?? '';
+    case 'BINARY_EXPRESSION':
+      // Left associative: an equally binding right operand needs parentheses
+      return `${formatOperand(first, node)} ${node.value} ${formatOperand(second, node, true)}`;
+    case 'ASSIGNMENT':
+      return `${formatOperand(first, node, true)} ${node.value} ${formatOperand(second, node)}`;
+    case 'COMMA_EXPRESSION':
+      return `${formatExpression(first)}, ${formatExpression(second)}`;
+    case 'CONDITIONAL_EXPRESSION':
+      return `${formatOperand(first, node)} ? ${formatExpression(second)} : ${formatOperand(third, node)}`;
+    case 'UNARY_EXPRESSION':
+    case 'ADDRESS_OF':
+    case 'DEREFERENCE':
+      return `${node.value}${formatOperand(first, node)}`;
+    case 'ARRAY_ACCESS':
+      return `${formatOperand(first, node)}[${formatExpression(second)}]`;
+    case 'MEMBER_ACCESS':
+      return `${formatOperand(first, node)}${node.value}${second.value}`;
+    case 'INITIALIZER_LIST':
+      return `{${node.children.map(formatExpression).join(', ')}}`;
+    case 'POSTFIX_EXPRESSION':
+      return `${formatOperand(first, node)}${node.value}`;
+    case 'CAST_EXPRESSION':
+      return `(${node.value})${formatOperand(first, node)}`;
+    case 'SIZEOF_EXPRESSION':
+      return first ? `sizeof ${formatOperand(first, node)}` : `sizeof(${node.value})`;
+    case 'FUNCTION_CALL':
+      return `${formatOperand(first, node)}(${second.children.map(formatExpression).join(', ')})`;
+    default:
+      return node.children.map(formatExpression).join(' ');
+  }
+};
+
+// Binding strength of an expression node, higher binds tighter
+const precedenceOf = (node: ParseTreeNode): number => {
+  switch (node.type) {
+    case 'COMMA_EXPRESSION': return 0;
+    case 'ASSIGNMENT': return 1;
+    case 'CONDITIONAL_EXPRESSION': return 2;
+    case 'BINARY_EXPRESSION': return 3 + BINARY_LEVELS.findIndex(level => level.includes(node.value ?? ''));
+    case 'CAST_EXPRESSION':
+    case 'UNARY_EXPRESSION':
+    case 'ADDRESS_OF':
+    case 'DEREFERENCE':
+    case 'SIZEOF_EXPRESSION': return 3 + BINARY_LEVELS.length;
+    case 'POSTFIX_EXPRESSION':
+    case 'ARRAY_ACCESS':
+    case 'MEMBER_ACCESS':
+    case 'FUNCTION_CALL': return 4 + BINARY_LEVELS.length;
+    default: return 5 + BINARY_LEVELS.length;
+  }
+};
+
+const formatOperand = (operand: ParseTreeNode, parent: ParseTreeNode, strict = false): string => {
+  const text = formatExpression(operand);
+  const needsParentheses = strict
+    ? precedenceOf(operand) <= precedenceOf(parent)
+    : precedenceOf(operand) < precedenceOf(parent);
+  return needsParentheses ? `(${text})` : text;
+};
@@ -0,0 +1,392 @@
+import { CompilerError, DeclaredSymbol, ParseTreeNode, SymbolKind, TypeDefinition, VariableScope } from '../types/compiler';
+import { LIBRARY_CONSTANTS, LIBRARY_FUNCTIONS } from './library';
+import { unqualified } from './ctypes';
+
+// Nodes that open a block scope for variables
+export const BLOCK_SCOPES = ['BLOCK', 'IF_BODY', 'ELSE', 'LOOP_BODY', 'FOR_STATEMENT', 'SWITCH_BODY'];
+// How block scopes are named in the scope tree
+const SCOPE_NAMES: Record<string, string> = {
+  BLOCK: 'block',
+  IF_BODY: 'if body',
+  ELSE: 'else body',
+  LOOP_BODY: 'loop body',
+  FOR_STATEMENT: 'for statement',
+  SWITCH_BODY: 'switch body'
+};
+const TYPE_DEFINITIONS = ['STRUCT_DEFINITION', 'UNION_DEFINITION', 'ENUM_DEFINITION', 'TYPEDEF'];
+const INCREMENTS = ['++', '--'];
+
+export interface SymbolResolution {
+  // The global scope, which holds one scope per function
+  scope: VariableScope;
+  // Declaration each identifier of an expression refers to, by the identifier's node id
+  references: Map<string, DeclaredSymbol>;
+  errors: CompilerError[];
+}
+
+// A scope being resolved: the names declared in it so far and the scope shown for it
+interface Frame {
+  scope: VariableScope;
+  symbols: Map<string, DeclaredSymbol>;
+}
+
+// An identifier that had no visible declaration where it was used
+interface Unresolved {
+  node: ParseTreeNode;
+  isCall: boolean;
+  // Scopes around the identifier, innermost last
+  frames: Frame[];
+  // Similar name that was visible, for a "did you mean" hint
+  suggestion: string | null;
+}
+
+// How an expression touches the variable it names
+type Access = 'read' | 'write' | 'readwrite';
+
+// Helper to count the single-character edits that turn one name into another
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = row;
+  }
+  return previous[b.length];
+};
+
+// Resolves every identifier to its declaration with C's scoping rules: a name is visible from the end
+// of its declarator to the end of the enclosing block, and an inner declaration hides an outer one.
+// Variables are marked as used or assigned on the way, and the scopes are collected for display.
+export class SymbolResolver {
+  private readonly definitions: Map<string, TypeDefinition>;
+  private readonly macros: Set<string>;
+  private frames: Frame[] = [];
+  private references = new Map<string, DeclaredSymbol>();
+  private unresolved: Unresolved[] = [];
+  private errors: CompilerError[] = [];
+  private readonly library = new Map<string, DeclaredSymbol>();
+  
+  // `definitions` holds the struct, union, enum and typedef definitions by node id, and `macros`
+  // the names defined with #define
+  constructor(definitions: Map<string, TypeDefinition>, macros: Set<string>) {
+    this.definitions = definitions;
+    this.macros = macros;
+  }
+  
+  resolve(parseTree: ParseTreeNode): SymbolResolution {
+    this.frames = [];
+    this.references = new Map();
+    this.unresolved = [];
+    this.errors = [];
+    
+    const global = this.enterScope('global', parseTree);
+    global.scope.start = 1;
+    parseTree.children.forEach(node => this.visit(node));
+    this.frames.pop();
+    
+    return { scope: global.scope, references: this.references, errors: [...this.errors, ...this.reportUnresolved()] };
+  }
+  
+  private visit(node: ParseTreeNode): void {
+    if (TYPE_DEFINITIONS.includes(node.type)) {
+      const definition = this.definitions.get(node.id);
+      if (definition) this.currentFrame().scope.types.push(definition);
+    }
+    
+    if (BLOCK_SCOPES.includes(node.type)) {
+      this.enterScope(SCOPE_NAMES[node.type], node);
+      node.children.forEach(child => this.visit(child));
+      this.frames.pop();
+      return;
+    }
+    
+    switch (node.type) {
+      case 'FUNCTION_PROTOTYPE':
+        this.declare('function', node, node.children[1], node.children[0].value!);
+        return;
+      case 'FUNCTION_DECLARATION': {
+        const [typeNode, nameNode, parameters] = node.children;
+        const body = node.children.find(child => child.type === 'FUNCTION_BODY');
+        this.declare('function', node, nameNode, typeNode.value!);
+        
+        // The parameters and the outermost block of the body share one scope
+        this.enterScope(nameNode.value!, node);
+        parameters.children.forEach(parameter => this.visit(parameter));
+        body?.children.forEach(child => this.visit(child));
+        this.frames.pop();
+        return;
+      }
+      case 'PARAMETER': {
+        const [typeNode, nameNode] = node.children;
+        if (nameNode) this.declare('parameter', node, nameNode, typeNode.value!);
+        return;
+      }
+      case 'VARIABLE_DECLARATION': {
+        // The name is in scope in its own initializer, as in C
+        const [typeNode, nameNode, ...initializer] = node.children;
+        if (nameNode) this.declare('variable', node, nameNode, typeNode.value!);
+        initializer.forEach(child => this.visit(child));
+        return;
+      }
+      case 'ENUM_DEFINITION':
+        node.children.forEach(enumerator => {
+          enumerator.children.forEach(child => this.visit(child));
+          this.declare('enum constant', enumerator, enumerator, 'int');
+        });
+        return;
+      case 'STRUCT_DEFINITION':
+      case 'UNION_DEFINITION':
+      case 'TYPEDEF':
+      case 'ERROR':
+        return;
+      case 'IDENTIFIER':
+        this.use(node, 'read');
+        return;
+      case 'ASSIGNMENT':
+        this.visitTarget(node.children[0], node.value === '=' ? 'write' : 'readwrite');
+        this.visit(node.children[1]);
+        return;
+      case 'EXPRESSION_STATEMENT':
+      case 'FOR_UPDATE':
+        // An increment whose value is thrown away only writes its variable
+        node.children.forEach(child => {
+          if (INCREMENTS.includes(child.value ?? '') && (child.type === 'POSTFIX_EXPRESSION' || child.type === 'UNARY_EXPRESSION')) {
+            this.visitTarget(child.children[0], 'write');
+          } else {
+            this.visit(child);
+          }
+        });
+        return;
+      case 'POSTFIX_EXPRESSION':
+      case 'UNARY_EXPRESSION':
+        if (INCREMENTS.includes(node.value ?? '')) {
+          this.visitTarget(node.children[0], 'readwrite');
+          return;
+        }
+        break;
+      case 'ADDRESS_OF':
+        // The pointer can be used to read the variable as well as to change it
+        this.visitTarget(node.children[0], 'readwrite');
+        return;
+      case 'MEMBER_ACCESS':
+        // The member name belongs to the struct, not to any scope
+        this.visit(node.children[0]);
+        return;
+      case 'FUNCTION_CALL': {
+        const [callee, ...rest] = node.children;
+        if (callee.type === 'IDENTIFIER') {
+          this.use(callee, 'read', true);
+        } else {
+          this.visit(callee);
+        }
+        rest.forEach(child => this.visit(child));
+        return;
+      }
+    }
+    
+    node.children.forEach(child => this.visit(child));
+  }
+  
+  // Helper to visit the operand of an assignment or increment, which writes a variable it names
+  private visitTarget(node: ParseTreeNode, access: Access): void {
+    if (node.type === 'IDENTIFIER') {
+      this.use(node, access);
+    } else {
+      this.visit(node);
+    }
+  }
+  
+  private currentFrame(): Frame {
+    return this.frames[this.frames.length - 1];
+  }
+  
+  private enterScope(name: string, node: ParseTreeNode): Frame {
+    const scope: VariableScope = {
+      name,
+      start: node.span.start.line,
+      end: node.span.end.line,
+      variables: [],
+      types: [],
+      children: []
+    };
+    this.currentFrame()?.scope.children.push(scope);
+    
+    const frame = { scope, symbols: new Map<string, DeclaredSymbol>() };
+    this.frames.push(frame);
+    return frame;
+  }
+  
+  // A name declared again in the same scope keeps its first declaration
+  private declare(kind: SymbolKind, declaration: ParseTreeNode, nameNode: ParseTreeNode, type: string): void {
+    const frame = this.currentFrame();
+    const name = nameNode.value!;
+    const previous = frame.symbols.get(name);
+    if (previous) {
+      this.checkRedeclaration(previous, kind, declaration, nameNode, type);
+      return;
+    }
+    this.checkShadowing(name, nameNode);
+    
+    const { line, column } = nameNode.span.start;
+    const symbol: DeclaredSymbol = { name, kind, type, declaration, line, column };
+    if (kind === 'variable' || kind === 'parameter') {
+      symbol.variable = { name, type, line, column, used: false, assigned: false };
+      if (kind === 'parameter') symbol.variable.isParameter = true;
+      frame.scope.variables.push(symbol.variable);
+    }
+    frame.symbols.set(name, symbol);
+  }
+  
+  // Functions may be declared any number of times, and so may file-scope variables as long as the
+  // types agree and at most one declaration has an initializer. Prototypes against definitions are
+  // compared by the signature check.
+  private checkRedeclaration(previous: DeclaredSymbol, kind: SymbolKind, declaration: ParseTreeNode, nameNode: ParseTreeNode, type: string): void {
+    if (previous.kind === 'function' && kind === 'function') return;
+    
+    const name = nameNode.value!;
+    const hasInitializer = (node?: ParseTreeNode) => node?.type === 'VARIABLE_DECLARATION' && node.children.length > 2;
+    let message = `Redefinition of '${name}'`;
+    if (previous.kind !== kind && !(previous.kind === 'parameter' && kind === 'variable')) {
+      message = `Redefinition of '${name}' as a different kind of symbol`;
+    } else if (unqualified(previous.type) !== unqualified(type)) {
+      message = `Redefinition of '${name}' with a different type: '${type}' vs '${previous.type}'`;
+    } else if (this.frames.length === 1 && kind === 'variable' && !(hasInitializer(previous.declaration) && hasInitializer(declaration))) {
+      return;
+    }
+    
+    const { line, column } = nameNode.span.start;
+    this.errors.push({
+      message,
+      line,
+      column,
+      severity: 'error',
+      context: name,
+      suggestions: [`Rename one of them, or remove this declaration and reuse the ${previous.kind} declared on line ${previous.line}`],
+      related: [{ message: `Previous declaration of '${name}' is here`, line: previous.line, column: previous.column }]
+    });
+  }
+  
+  // Helper to warn when a declaration hides one of an enclosing scope
+  private checkShadowing(name: string, nameNode: ParseTreeNode): void {
+    for (let i = this.frames.length - 2; i >= 0; i--) {
+      const outer = this.frames[i].symbols.get(name);
+      if (!outer) continue;
+      
+      const described = outer.kind === 'variable' ? (i === 0 ? 'global variable' : 'local variable') : outer.kind;
+      const { line, column } = nameNode.span.start;
+      this.errors.push({
+        message: `Declaration of '${name}' shadows a ${described}`,
+        line,
+        column,
+        severity: 'warning',
+        context: name,
+        suggestions: [`Rename it; inside this scope the ${described} '${name}' from line ${outer.line} cannot be reached`],
+        related: [{ message: `The shadowed '${name}' is declared here`, line: outer.line, column: outer.column }]
+      });
+      return;
+    }
+  }
+  
+  private use(node: ParseTreeNode, access: Access, isCall = false): void {
+    const name = node.value!;
+    const symbol = this.lookup(name);
+    if (!symbol) {
+      this.unresolved.push({ node, isCall, frames: [...this.frames], suggestion: this.suggest(name, isCall) });
+      return;
+    }
+    
+    this.references.set(node.id, symbol);
+    if (symbol.variable) {
+      if (access !== 'write') symbol.variable.used = true;
+      if (access !== 'read') symbol.variable.assigned = true;
+    }
+  }
+  
+  // The innermost declaration in scope, then macros, then the standard library
+  private lookup(name: string): DeclaredSymbol | null {
+    for (let i = this.frames.length - 1; i >= 0; i--) {
+      const symbol = this.frames[i].symbols.get(name);
+      if (symbol) return symbol;
+    }
+    
+    if (this.macros.has(name)) {
+      return { name, kind: 'macro', type: '', line: 0, column: 0 };
+    }
+    
+    const cached = this.library.get(name);
+    if (cached) return cached;
+    const libraryFunction = LIBRARY_FUNCTIONS.get(name);
+    const type = libraryFunction ? libraryFunction.returnType : LIBRARY_CONSTANTS.get(name);
+    if (type === undefined) return null;
+    
+    const symbol: DeclaredSymbol = { name, kind: 'library', type, line: 0, column: 0 };
+    this.library.set(name, symbol);
+    return symbol;
+  }
+  
+  // Helper to find a visible name close enough to be a typo of the unknown one
+  private suggest(name: string, isCall: boolean): string | null {
+    const candidates = [
+      ...this.frames.flatMap(frame => [...frame.symbols.keys()]),
+      ...this.macros,
+      ...(isCall ? LIBRARY_FUNCTIONS.keys() : LIBRARY_CONSTANTS.keys())
+    ];
+    const limit = name.length <= 3 ? 1 : 2;
+    
+    let best: string | null = null;
+    let bestDistance = limit + 1;
+    for (const candidate of candidates) {
+      const distance = editDistance(name, candidate);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+  
+  // An identifier with no declaration in sight is undeclared, unless a scope around it declares the
+  // name further down: C only sees declarations above the use
+  private reportUnresolved(): CompilerError[] {
+    return this.unresolved.map(({ node, isCall, frames, suggestion }) => {
+      const name = node.value!;
+      const { line, column } = node.span.start;
+      const later = frames.map(frame => frame.symbols.get(name)).reverse().find(symbol => symbol !== undefined);
+      
+      if (later) {
+        return {
+          message: `${isCall ? `Function '${name}' is called` : `'${name}' is used`} before its declaration on line ${later.line}`,
+          line,
+          column,
+          severity: 'error',
+          context: name,
+          suggestions: [
+            isCall && later.declaration
+              ? `Declare it before the call with the prototype '${this.prototype(later.declaration)}'`
+              : `Move the declaration of '${name}' above line ${line}`
+          ]
+        };
+      }
+      
+      return {
+        message: isCall ? `Call to undeclared function '${name}'` : `Use of undeclared identifier '${name}'`,
+        line,
+        column,
+        severity: 'error',
+        context: name,
+        suggestions: suggestion
+          ? [`Did you mean '${suggestion}'?`]
+          : [isCall ? `Declare or define '${name}' before calling it` : `Declare '${name}' before using it`]
+      };
+    });
+  }
+  
+  // Helper to write the prototype of a function definition or declaration
+  private prototype(declaration: ParseTreeNode): string {
+    const [typeNode, nameNode, parameters] = declaration.children;
+    const types = parameters?.children.map(parameter => parameter.children[0].value) ?? [];
+    return `${typeNode.value} ${nameNode.value}(${types.length > 0 ? types.join(', ') : 'void'});`;
+  }
+}
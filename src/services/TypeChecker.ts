@@ -0,0 +1,714 @@
+import { CompilerError, DeclaredSymbol, ParseTreeNode, TypeDefinition } from '../types/compiler';
+import {
+  adjustParameterType,
+  arithmeticSize,
+  arithmeticType,
+  commonArithmeticType,
+  elementType,
+  integerRange,
+  isArithmeticType,
+  isArrayType,
+  isFloatingType,
+  isIntegerType,
+  isPointerType,
+  pointerTo,
+  promote,
+  recordKey,
+  resolveTypedefs
+} from './ctypes';
+import { FORMAT_FUNCTIONS, LIBRARY_FUNCTIONS, analyzeFormat } from './library';
+import { formatExpression } from './Parser';
+
+// Nodes that compute a value and get a type
+const EXPRESSIONS = new Set([
+  'IDENTIFIER', 'NUMBER', 'CHAR', 'STRING', 'BINARY_EXPRESSION', 'UNARY_EXPRESSION', 'POSTFIX_EXPRESSION',
+  'ASSIGNMENT', 'CONDITIONAL_EXPRESSION', 'COMMA_EXPRESSION', 'CAST_EXPRESSION', 'SIZEOF_EXPRESSION',
+  'FUNCTION_CALL', 'ARRAY_ACCESS', 'MEMBER_ACCESS', 'DEREFERENCE', 'ADDRESS_OF', 'INITIALIZER_LIST'
+]);
+
+const COMPARISONS = ['<', '>', '<=', '>=', '==', '!='];
+
+// Where a value is converted to another type, for wording diagnostics
+type Conversion = 'initializing' | 'assigning' | 'returning' | 'passing';
+
+// Helper to read the type of an integer or floating constant from its spelling and suffix
+const numberType = (text: string): string => {
+  const isHex = /^0[xX]/.test(text);
+  if (isHex ? /[.pP]/.test(text) : /[.eE]/.test(text)) {
+    if (/[fF]$/.test(text)) return 'float';
+    return /[lL]$/.test(text) ? 'long double' : 'double';
+  }
+  
+  const suffix = /[uUlL]*$/.exec(text)![0].toLowerCase();
+  const sign = suffix.includes('u') ? 'unsigned ' : '';
+  if (suffix.includes('ll')) return `${sign}long long`;
+  if (suffix.includes('l')) return `${sign}long`;
+  // A decimal constant too large for an int is a long
+  const value = Number(text.slice(0, text.length - suffix.length));
+  return !sign && value > 2147483647 ? 'long' : `${sign}int`;
+};
+
+// Static type checker. Every expression node gets its C type in `ctype`, with the integer
+// promotions and usual arithmetic conversions applied, and conversions at assignments,
+// initializations and returns are checked.
+export class TypeChecker {
+  private readonly typedefs: Map<string, string>;
+  private readonly records: Map<string, TypeDefinition>;
+  private readonly references: Map<string, DeclaredSymbol>;
+  private readonly evaluate: (node: ParseTreeNode) => number | null;
+  private errors: CompilerError[] = [];
+  // The function whose body is being checked
+  private currentFunction: { name: string, returnType: string } | null = null;
+  
+  // `references` maps identifier nodes to their declarations, and `evaluate` folds integer constant expressions
+  constructor(
+    typedefs: Map<string, string>,
+    records: Map<string, TypeDefinition>,
+    references: Map<string, DeclaredSymbol>,
+    evaluate: (node: ParseTreeNode) => number | null
+  ) {
+    this.typedefs = typedefs;
+    this.records = records;
+    this.references = references;
+    this.evaluate = evaluate;
+  }
+  
+  check(parseTree: ParseTreeNode): CompilerError[] {
+    this.errors = [];
+    this.currentFunction = null;
+    this.visit(parseTree);
+    return this.errors;
+  }
+  
+  // Statements
+  
+  private visit(node: ParseTreeNode): void {
+    if (EXPRESSIONS.has(node.type)) {
+      this.typeOf(node);
+      return;
+    }
+    
+    switch (node.type) {
+      case 'FUNCTION_DECLARATION':
+        this.checkFunction(node);
+        return;
+      case 'VARIABLE_DECLARATION': {
+        const [typeNode, , initializer] = node.children;
+        if (initializer) this.checkInitializer(typeNode.value!, initializer);
+        return;
+      }
+      case 'RETURN':
+        this.checkReturn(node);
+        return;
+      case 'CONDITION': {
+        const condition = node.children[0];
+        const type = condition ? this.valueType(this.typeOf(condition)) : null;
+        if (type !== null && !this.isScalar(type)) {
+          this.report(condition, `Statement requires an expression of scalar type ('${condition.ctype}' invalid)`, 'error', [
+            'Compare the value with something, or test one of its members'
+          ]);
+        }
+        return;
+      }
+      case 'FUNCTION_PROTOTYPE':
+      case 'STRUCT_DEFINITION':
+      case 'UNION_DEFINITION':
+      case 'ENUM_DEFINITION':
+      case 'TYPEDEF':
+      case 'ERROR':
+        return;
+    }
+    
+    node.children.forEach(child => this.visit(child));
+  }
+  
+  private checkFunction(node: ParseTreeNode): void {
+    const [typeNode, nameNode] = node.children;
+    const body = node.children.find(child => child.type === 'FUNCTION_BODY');
+    if (!body) return;
+    
+    const returnType = typeNode.value!;
+    this.currentFunction = { name: nameNode.value!, returnType };
+    body.children.forEach(child => this.visit(child));
+    this.currentFunction = null;
+  }
+  
+  private checkInitializer(declaredType: string, initializer: ParseTreeNode): void {
+    const target = this.resolve(declaredType);
+    
+    if (initializer.type === 'INITIALIZER_LIST') {
+      // Each element of an array initializer converts to the element type; struct members are not checked
+      const element = isArrayType(target) ? elementType(target) : null;
+      initializer.children.forEach(child => {
+        if (element !== null) {
+          this.checkInitializer(element, child);
+        } else {
+          this.typeOf(child);
+        }
+      });
+      return;
+    }
+    
+    const source = this.typeOf(initializer);
+    if (isArrayType(target)) {
+      const isCharArray = isIntegerType(elementType(target)!) && arithmeticSize(elementType(target)!) === 1;
+      if (!(initializer.type === 'STRING' && isCharArray)) {
+        this.report(initializer, 'Array initializer must be an initializer list or a string literal', 'error', [
+          `Write the elements in braces, e.g. {${formatExpression(initializer)}}`
+        ]);
+      }
+      return;
+    }
+    this.checkConversion(declaredType, source, initializer, 'initializing');
+  }
+  
+  private checkReturn(node: ParseTreeNode): void {
+    const value = node.children[0];
+    const valueType = value ? this.typeOf(value) : null;
+    if (!this.currentFunction) return;
+    
+    const { name, returnType } = this.currentFunction;
+    const isVoid = this.resolve(returnType) === 'void';
+    if (value && isVoid) {
+      this.report(node, `Void function '${name}' should not return a value`, 'error', [
+        `Write 'return;', or declare '${name}' with the type of the value it returns`
+      ]);
+    } else if (!value && !isVoid) {
+      this.report(node, `Non-void function '${name}' should return a value`, 'error', [
+        `Return a '${returnType}' value, e.g. 'return 0;'`
+      ]);
+    } else if (value) {
+      this.checkConversion(returnType, valueType, value, 'returning');
+    }
+  }
+  
+  // Expressions
+  
+  private typeOf(node: ParseTreeNode): string | null {
+    const type = this.infer(node);
+    if (type !== null) {
+      node.ctype = type;
+    }
+    return type;
+  }
+  
+  private infer(node: ParseTreeNode): string | null {
+    const [first, second, third] = node.children;
+    
+    switch (node.type) {
+      case 'NUMBER':
+        return numberType(node.value!);
+      case 'CHAR':
+        // Character constants are ints in C
+        return 'int';
+      case 'STRING':
+        return 'char*';
+      case 'IDENTIFIER':
+        return this.identifierType(node);
+      case 'SIZEOF_EXPRESSION':
+        node.children.forEach(child => this.typeOf(child));
+        return 'unsigned long';
+      case 'CAST_EXPRESSION':
+        this.typeOf(first);
+        return node.value!;
+      case 'COMMA_EXPRESSION':
+        this.typeOf(first);
+        return this.typeOf(second);
+      case 'INITIALIZER_LIST':
+        node.children.forEach(child => this.typeOf(child));
+        return null;
+      case 'FUNCTION_CALL':
+        return this.callType(node);
+      case 'MEMBER_ACCESS':
+        return this.memberType(node);
+      case 'ARRAY_ACCESS':
+        return this.subscriptType(node, this.valueType(this.typeOf(first)), this.valueType(this.typeOf(second)));
+      case 'DEREFERENCE': {
+        const operand = this.valueType(this.typeOf(first));
+        if (operand === null) return null;
+        if (isPointerType(operand)) return elementType(operand);
+        this.report(node, `Indirection requires a pointer operand ('${first.ctype}' invalid)`, 'error', [
+          `'${formatExpression(first)}' is not a pointer, so '*' cannot be applied to it`
+        ]);
+        return null;
+      }
+      case 'ADDRESS_OF': {
+        const operand = this.typeOf(first);
+        return operand === null ? null : pointerTo(operand);
+      }
+      case 'UNARY_EXPRESSION':
+      case 'POSTFIX_EXPRESSION':
+        return this.unaryType(node, this.typeOf(first));
+      case 'BINARY_EXPRESSION':
+        return this.binaryType(node, node.value!, this.valueType(this.typeOf(first)), this.valueType(this.typeOf(second)));
+      case 'ASSIGNMENT':
+        return this.assignmentType(node);
+      case 'CONDITIONAL_EXPRESSION':
+        return this.conditionalType(node, this.valueType(this.typeOf(first)), this.typeOf(second), this.typeOf(third));
+      default:
+        node.children.forEach(child => this.typeOf(child));
+        return null;
+    }
+  }
+  
+  // Helper to give an identifier the type of its declaration. Functions named without being called have no type here.
+  private identifierType(node: ParseTreeNode): string | null {
+    const symbol = this.references.get(node.id);
+    if (!symbol || symbol.kind === 'function' || symbol.kind === 'macro') return null;
+    if (symbol.kind === 'library' && LIBRARY_FUNCTIONS.has(symbol.name)) return null;
+    return symbol.type;
+  }
+  
+  private callType(node: ParseTreeNode): string | null {
+    const [callee, argumentList] = node.children;
+    const args = argumentList?.children ?? [];
+    const argumentTypes = args.map(arg => this.typeOf(arg));
+    
+    if (callee.type !== 'IDENTIFIER') {
+      this.typeOf(callee);
+      return null;
+    }
+    const symbol = this.references.get(callee.id);
+    const signature = symbol ? this.signatureOf(symbol) : null;
+    if (!signature) return null;
+    
+    const { parameters, variadic, prototype } = signature;
+    const name = callee.value!;
+    if (args.length < parameters.length || (args.length > parameters.length && !variadic)) {
+      this.report(node, `Too ${args.length < parameters.length ? 'few' : 'many'} arguments to function call, expected ${parameters.length}${variadic ? ' or more' : ''}, have ${args.length}`, 'error', [
+        `'${name}' is declared as '${prototype}'`
+      ]);
+    }
+    
+    args.forEach((arg, i) => {
+      if (i < parameters.length) {
+        this.checkConversion(parameters[i], argumentTypes[i], arg, 'passing');
+      } else if (this.valueType(argumentTypes[i]) === 'void') {
+        this.report(arg, `Passing a 'void' value to '${name}'`, 'error', [`'${formatExpression(arg)}' does not produce a value`]);
+      }
+    });
+    
+    const format = FORMAT_FUNCTIONS.get(name);
+    if (symbol!.kind === 'library' && format && args[format.index]?.type === 'STRING') {
+      this.checkFormat(format.style, args[format.index], args.slice(format.index + 1), argumentTypes.slice(format.index + 1));
+    }
+    return symbol!.type;
+  }
+  
+  // Parameter types of a function declared in the program or in the standard library. A function
+  // declared with an empty parameter list takes no arguments, as in C23.
+  private signatureOf(symbol: DeclaredSymbol): { parameters: string[], variadic: boolean, prototype: string } | null {
+    if (symbol.kind === 'library') {
+      const libraryFunction = LIBRARY_FUNCTIONS.get(symbol.name);
+      if (!libraryFunction) return null;
+      
+      const { returnType, parameters, variadic } = libraryFunction;
+      const list = [...parameters, ...(variadic ? ['...'] : [])];
+      return { parameters, variadic, prototype: `${returnType} ${symbol.name}(${list.join(', ') || 'void'})` };
+    }
+    if (symbol.kind !== 'function' || !symbol.declaration) return null;
+    
+    const parameters = symbol.declaration.children[2].children.map(parameter => adjustParameterType(parameter.children[0].value!));
+    return { parameters, variadic: false, prototype: `${symbol.type} ${symbol.name}(${parameters.join(', ') || 'void'})` };
+  }
+  
+  // Helper to match the arguments after a literal format string against its conversions
+  private checkFormat(style: 'printf' | 'scanf', formatNode: ParseTreeNode, args: ParseTreeNode[], argumentTypes: (string | null)[]): void {
+    const { arguments: expected, errors } = analyzeFormat(String(formatNode.literal ?? ''), style);
+    errors.forEach(message => this.report(formatNode, message, 'warning', [
+      "Conversions are written like %d, %f, %s or %c; write %% for a literal '%'"
+    ]));
+    
+    expected.forEach(({ conversion, type }, i) => {
+      const arg = args[i];
+      if (!arg) {
+        if (i === args.length) {
+          this.report(formatNode, `More '%' conversions than data arguments: '${conversion}' has no argument`, 'warning', [
+            `The format string needs ${expected.length} argument(s) but the call passes ${args.length}`
+          ]);
+        }
+        return;
+      }
+      
+      const actual = this.valueType(argumentTypes[i]);
+      if (actual === null || this.matchesFormat(type, actual, style)) return;
+      
+      const specifier = this.specifierFor(actual, style);
+      const suggestion = style === 'scanf' && !isPointerType(actual) && this.matchesFormat(type, pointerTo(actual), style)
+        ? `scanf stores through a pointer: pass '&${formatExpression(arg)}'`
+        : specifier ? `Use '${specifier}' for an argument of type '${argumentTypes[i]}'` : `Pass a '${type}' for '${conversion}'`;
+      this.report(arg, `Format specifies type '${type}' but the argument has type '${argumentTypes[i]}'`, 'warning', [suggestion]);
+    });
+    
+    args.slice(expected.length).forEach(arg => {
+      this.report(arg, 'Data argument not used by format string', 'warning', [
+        `Add a conversion for '${formatExpression(arg)}' to the format string, or remove the argument`
+      ]);
+    });
+  }
+  
+  // Whether an argument fits a format conversion. printf arguments undergo the default argument
+  // promotions, so a char fits %d and a float fits %f; signedness is not checked.
+  private matchesFormat(expected: string, actual: string, style: 'printf' | 'scanf'): boolean {
+    const sameArithmetic = (a: string, b: string) => isIntegerType(a)
+      ? isIntegerType(b) && arithmeticSize(a) === arithmeticSize(b)
+      : isFloatingType(a) && arithmeticType(a) === arithmeticType(b);
+    
+    if (isPointerType(expected)) {
+      if (!isPointerType(actual)) return false;
+      const target = elementType(expected)!;
+      const pointee = elementType(actual)!;
+      if (target === 'void') return true;
+      if (isPointerType(target)) return isPointerType(pointee);
+      return sameArithmetic(target, pointee);
+    }
+    
+    const promoted = (type: string) => arithmeticType(type) === 'float' ? 'double' : promote(type);
+    return style === 'printf' && isArithmeticType(actual) && sameArithmetic(promote(expected), promoted(actual));
+  }
+  
+  // Helper to name the conversion that prints or reads a value of the given type
+  private specifierFor(type: string, style: 'printf' | 'scanf'): string | null {
+    const target = style === 'scanf' ? (isPointerType(type) ? elementType(type)! : null) : type;
+    if (target === null) return null;
+    if (style === 'printf' && isPointerType(target)) {
+      return arithmeticSize(elementType(target)!) === 1 && isIntegerType(elementType(target)!) ? '%s' : '%p';
+    }
+    
+    const canonical = arithmeticType(target);
+    if (canonical === null) return null;
+    if (isFloatingType(canonical)) {
+      return canonical === 'long double' ? '%Lf' : style === 'scanf' && canonical === 'double' ? '%lf' : '%f';
+    }
+    if (style === 'scanf' && arithmeticSize(canonical) === 1) return '%c';
+    
+    const length = canonical.includes('long long') ? 'll' : canonical.includes('long') ? 'l' : '';
+    return `%${length}${canonical.startsWith('unsigned') ? 'u' : 'd'}`;
+  }
+  
+  // Errors about members are reported by the member access check; here the member only gives its type
+  private memberType(node: ParseTreeNode): string | null {
+    const [object, member] = node.children;
+    const objectType = this.valueType(this.typeOf(object));
+    if (objectType === null) return null;
+    
+    const record = recordKey(node.value === '->' && isPointerType(objectType) ? elementType(objectType)! : objectType);
+    const definition = record ? this.records.get(record) : undefined;
+    return definition?.members.find(candidate => candidate.name === member.value)?.type ?? null;
+  }
+  
+  private subscriptType(node: ParseTreeNode, base: string | null, index: string | null): string | null {
+    if (base === null || index === null) {
+      return base !== null && isPointerType(base) ? elementType(base) : null;
+    }
+    
+    // a[i] is *(a + i), so the pointer may also be written second
+    const [pointer, subscript] = isPointerType(base) ? [base, index] : [index, base];
+    if (!isPointerType(pointer)) {
+      this.report(node, `Subscripted value is not an array or pointer ('${node.children[0].ctype}' invalid)`, 'error', [
+        `Only arrays and pointers can be indexed with [ ]`
+      ]);
+      return null;
+    }
+    if (!isIntegerType(subscript)) {
+      this.report(node.children[1], `Array subscript is not an integer ('${subscript}' invalid)`, 'error', [
+        'Convert the subscript to an integer, e.g. with a cast to (int)'
+      ]);
+    }
+    return elementType(pointer);
+  }
+  
+  private unaryType(node: ParseTreeNode, operandType: string | null): string | null {
+    const operand = this.valueType(operandType);
+    if (operand === null) return null;
+    
+    const operator = node.value!;
+    if (operand === 'void') {
+      this.reportVoidOperand(node, operator);
+      return null;
+    }
+    
+    const invalid = () => {
+      this.report(node, `Invalid argument type '${operandType}' to unary operator '${operator}'`, 'error', [
+        `'${operator}' cannot be applied to a value of type '${operandType}'`
+      ]);
+      return null;
+    };
+    
+    switch (operator) {
+      case '+':
+      case '-':
+        return isArithmeticType(operand) ? promote(operand) : invalid();
+      case '~':
+        return isIntegerType(operand) ? promote(operand) : invalid();
+      case '!':
+        return this.isScalar(operand) ? 'int' : invalid();
+      case '++':
+      case '--':
+        return this.isScalar(operand) ? operandType : invalid();
+      default:
+        return null;
+    }
+  }
+  
+  private binaryType(node: ParseTreeNode, operator: string, left: string | null, right: string | null): string | null {
+    const isComparison = COMPARISONS.includes(operator) || operator === '&&' || operator === '||';
+    if (left === null || right === null) {
+      return isComparison ? 'int' : null;
+    }
+    if (left === 'void' || right === 'void') {
+      this.reportVoidOperand(node, operator);
+      return null;
+    }
+    
+    const bothArithmetic = isArithmeticType(left) && isArithmeticType(right);
+    const bothInteger = isIntegerType(left) && isIntegerType(right);
+    const invalid = () => {
+      this.report(node, `Invalid operands to binary expression ('${left}' and '${right}')`, 'error', [
+        `'${operator}' cannot combine a '${left}' with a '${right}'`
+      ]);
+      return null;
+    };
+    
+    switch (operator) {
+      case '*':
+      case '/':
+        return bothArithmetic ? commonArithmeticType(left, right) : invalid();
+      case '%':
+      case '&':
+      case '|':
+      case '^':
+        return bothInteger ? commonArithmeticType(left, right) : invalid();
+      case '<<':
+      case '>>':
+        return bothInteger ? promote(left) : invalid();
+      case '+':
+      case '-': {
+        if (bothArithmetic) return commonArithmeticType(left, right);
+        
+        const pointer = isPointerType(left) ? left : isPointerType(right) && operator === '+' ? right : null;
+        const offset = pointer === left ? right : left;
+        if (pointer !== null && isIntegerType(offset)) {
+          this.checkVoidPointerArithmetic(node, pointer);
+          return pointer;
+        }
+        if (operator === '-' && isPointerType(left) && isPointerType(right)) {
+          if (left !== right) {
+            this.report(node, `'${left}' and '${right}' are not pointers to compatible types`, 'error', [
+              'Only pointers into the same array can be subtracted'
+            ]);
+          }
+          this.checkVoidPointerArithmetic(node, left);
+          return 'long';
+        }
+        return invalid();
+      }
+      case '&&':
+      case '||':
+        return this.isScalar(left) && this.isScalar(right) ? 'int' : invalid();
+      default:
+        return this.comparisonType(node, left, right, invalid);
+    }
+  }
+  
+  private comparisonType(node: ParseTreeNode, left: string, right: string, invalid: () => null): string | null {
+    if (isArithmeticType(left) && isArithmeticType(right)) return 'int';
+    
+    const [leftNode, rightNode] = node.children;
+    if (isPointerType(left) && isPointerType(right)) {
+      if (left !== right && left !== 'void*' && right !== 'void*') {
+        this.report(node, `Comparison of distinct pointer types ('${left}' and '${right}')`, 'warning', [
+          'Cast one of the pointers if they really point to the same object'
+        ]);
+      }
+      return 'int';
+    }
+    
+    const [pointerNode, other] = isPointerType(left) ? [leftNode, right] : isPointerType(right) ? [rightNode, left] : [null, null];
+    if (pointerNode && other !== null && isIntegerType(other)) {
+      const integerNode = pointerNode === leftNode ? rightNode : leftNode;
+      if (this.evaluate(integerNode) !== 0) {
+        this.report(node, `Comparison between pointer and integer ('${left}' and '${right}')`, 'warning', [
+          `Compare '${formatExpression(pointerNode)}' with NULL or with another pointer`
+        ]);
+      }
+      return 'int';
+    }
+    return invalid();
+  }
+  
+  private assignmentType(node: ParseTreeNode): string | null {
+    const [targetNode, sourceNode] = node.children;
+    const target = this.typeOf(targetNode);
+    const source = this.typeOf(sourceNode);
+    if (target === null) return null;
+    
+    if (isArrayType(this.resolve(target))) {
+      this.report(node, `Array type '${target}' is not assignable`, 'error', [
+        'Assign the elements one by one, or copy them with memcpy'
+      ]);
+      return target;
+    }
+    
+    if (node.value === '=') {
+      this.checkConversion(target, source, sourceNode, 'assigning');
+    } else {
+      // x op= y is checked as x op y
+      this.binaryType(node, node.value!.slice(0, -1), this.valueType(target), this.valueType(source));
+    }
+    return target;
+  }
+  
+  private conditionalType(node: ParseTreeNode, condition: string | null, whenTrue: string | null, whenFalse: string | null): string | null {
+    const [conditionNode, trueNode, falseNode] = node.children;
+    if (condition !== null && !this.isScalar(condition)) {
+      this.report(conditionNode, `Used type '${conditionNode.ctype}' where a scalar is required`, 'error', [
+        'The condition of ?: must be a number or a pointer'
+      ]);
+    }
+    
+    const a = this.valueType(whenTrue);
+    const b = this.valueType(whenFalse);
+    if (a === null || b === null) return a ?? b;
+    if (isArithmeticType(a) && isArithmeticType(b)) return commonArithmeticType(a, b);
+    if (a === b) return whenTrue;
+    
+    // A null pointer constant takes the type of the other pointer
+    if (isPointerType(a) && isIntegerType(b) && this.evaluate(falseNode) === 0) return a;
+    if (isPointerType(b) && isIntegerType(a) && this.evaluate(trueNode) === 0) return b;
+    if (isPointerType(a) && isPointerType(b)) {
+      if (a === 'void*' || b === 'void*') return 'void*';
+      this.report(node, `Pointer type mismatch ('${a}' and '${b}')`, 'warning', ['Cast one branch to the type of the other']);
+      return a;
+    }
+    
+    this.report(node, `Incompatible operand types ('${whenTrue}' and '${whenFalse}')`, 'error', [
+      'Both branches of ?: must have compatible types'
+    ]);
+    return null;
+  }
+  
+  // Conversions
+  
+  // Helper to check that a value of type `sourceType` can be converted to `targetType` where it is
+  // assigned, used as an initializer or returned
+  private checkConversion(targetType: string, sourceType: string | null, sourceNode: ParseTreeNode, conversion: Conversion): void {
+    if (sourceType === null) return;
+    const target = this.resolve(targetType);
+    const source = this.valueType(sourceType)!;
+    
+    const phrase = conversion === 'initializing' ? `initializing '${targetType}' with an expression of type '${sourceType}'`
+      : conversion === 'assigning' ? `assigning to '${targetType}' from '${sourceType}'`
+      : conversion === 'returning' ? `returning '${sourceType}' from a function with result type '${targetType}'`
+      : `passing '${sourceType}' to parameter of type '${targetType}'`;
+    const incompatible = (message: string, suggestion: string) =>
+      this.report(sourceNode, message, 'error', [suggestion]);
+    
+    if (source === 'void') {
+      incompatible(`Incompatible types when ${phrase}`, `'${formatExpression(sourceNode)}' does not produce a value`);
+      return;
+    }
+    
+    if (isArithmeticType(target) && isArithmeticType(source)) {
+      this.checkNarrowing(target, source, targetType, sourceType, sourceNode);
+      return;
+    }
+    
+    if (isPointerType(target)) {
+      if (isPointerType(source)) {
+        if (source !== target && source !== 'void*' && target !== 'void*') {
+          this.report(sourceNode, `Incompatible pointer types ${phrase}`, 'warning', [
+            `Cast the value to '${targetType}' if the conversion is intended`
+          ]);
+        }
+      } else if (isIntegerType(source)) {
+        if (this.evaluate(sourceNode) !== 0) {
+          incompatible(`Incompatible integer to pointer conversion ${phrase}`, `Take the address with '&', or use NULL for no object`);
+        }
+      } else {
+        incompatible(`Incompatible types when ${phrase}`, `A '${sourceType}' cannot be converted to a pointer`);
+      }
+      return;
+    }
+    
+    if (isIntegerType(target) && isPointerType(source)) {
+      if (arithmeticType(target) !== '_Bool') {
+        incompatible(`Incompatible pointer to integer conversion ${phrase}`, `Dereference the pointer with '*' to use the value it points to`);
+      }
+      return;
+    }
+    
+    if (target !== source && (recordKey(target) || recordKey(source) || isArithmeticType(target) !== isArithmeticType(source))) {
+      incompatible(`Incompatible types when ${phrase}`, `A '${sourceType}' cannot be converted to '${targetType}'`);
+    }
+  }
+  
+  // Helper to warn about arithmetic conversions that can change a value. Constants that fit are
+  // fine, and so are floating constants stored in a float and the int-to-char conversions that
+  // integer promotion makes everywhere.
+  private checkNarrowing(target: string, source: string, targetType: string, sourceType: string, sourceNode: ParseTreeNode): void {
+    const constant = this.evaluate(sourceNode);
+    if (constant !== null && isIntegerType(target)) {
+      const [min, max] = integerRange(target);
+      if (constant < min || constant > max) {
+        const span = max - min + 1;
+        const wrapped = ((((constant - min) % span) + span) % span) + min;
+        this.report(sourceNode, `Implicit conversion from '${sourceType}' to '${targetType}' changes value from ${constant} to ${wrapped}`, 'warning', [
+          `Use a value between ${min} and ${max}, or a wider type`
+        ]);
+      }
+      return;
+    }
+    
+    const isLiteral = sourceNode.type === 'NUMBER' || (sourceNode.type === 'UNARY_EXPRESSION' && sourceNode.children[0]?.type === 'NUMBER');
+    if (isFloatingType(source) && isIntegerType(target)) {
+      this.report(sourceNode, `Implicit conversion from '${sourceType}' to '${targetType}' discards the fractional part`, 'warning', [
+        `Cast with (${targetType}) to make the conversion explicit, or round the value first`
+      ]);
+    } else if (isFloatingType(source) && isFloatingType(target) && arithmeticSize(source) > arithmeticSize(target) && !isLiteral) {
+      this.report(sourceNode, `Implicit conversion from '${sourceType}' to '${targetType}' loses precision`, 'warning', [
+        `Declare the destination as '${source}', or cast with (${targetType})`
+      ]);
+    } else if (isIntegerType(source) && isIntegerType(target) && arithmeticSize(source) > 4 && arithmeticSize(target) < arithmeticSize(source)) {
+      this.report(sourceNode, `Implicit conversion from '${sourceType}' to '${targetType}' may lose integer precision`, 'warning', [
+        `Declare the destination as '${source}', or cast with (${targetType})`
+      ]);
+    }
+  }
+  
+  // Helpers
+  
+  private resolve(type: string): string {
+    return resolveTypedefs(type, this.typedefs);
+  }
+  
+  // The type an expression's value has when it is used: typedefs resolved and arrays decayed to pointers
+  private valueType(type: string | null): string | null {
+    if (type === null) return null;
+    const resolved = this.resolve(type);
+    return isArrayType(resolved) ? pointerTo(resolved) : resolved;
+  }
+  
+  private isScalar(type: string): boolean {
+    return isArithmeticType(type) || isPointerType(type);
+  }
+  
+  private checkVoidPointerArithmetic(node: ParseTreeNode, pointer: string): void {
+    if (pointer === 'void*') {
+      this.report(node, "Arithmetic on a pointer to void", 'warning', [
+        "'void' has no size; cast to 'char*' to move the pointer by bytes"
+      ]);
+    }
+  }
+  
+  private reportVoidOperand(node: ParseTreeNode, operator: string): void {
+    this.report(node, `Arithmetic on a 'void' value: '${operator}' needs an operand that has a value`, 'error', [
+      'A call to a void function does not produce a value'
+    ]);
+  }
+  
+  private report(node: ParseTreeNode, message: string, severity: 'error' | 'warning', suggestions: string[]): void {
+    const { line, column } = node.span.start;
+    this.errors.push({ message, line, column, severity, context: formatExpression(node), suggestions });
+  }
+}
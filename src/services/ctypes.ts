@@ -0,0 +1,160 @@
+// Helpers for the type strings built by the parser. A type string is written as its declaration
+// specifiers, then one '*' per pointer level (optionally followed by qualifiers), then one [n] per
+// array dimension, e.g. `const char*`, `struct node*`, `int[3][4]` or `char*[2]`.
+
+const QUALIFIER_WORDS = /\b(const|volatile|restrict|static|extern|auto|register|inline|typedef)\b/g;
+
+// Drop qualifiers and storage classes, which do not change what kind of value a type describes
+export const unqualified = (type: string): string =>
+  type.replace(QUALIFIER_WORDS, '').replace(/\s+/g, ' ').replace(/ ?\* ?/g, '*').trim();
+
+// The specifier part of a type, before any pointer or array derivation
+export const baseOf = (type: string): string => {
+  const clean = unqualified(type);
+  const end = clean.search(/[*[]/);
+  return end === -1 ? clean : clean.slice(0, end);
+};
+
+export const isPointerType = (type: string): boolean => unqualified(type).endsWith('*');
+
+export const isArrayType = (type: string): boolean => unqualified(type).endsWith(']');
+
+// The type reached through a pointer or an array index, or null for any other type
+export const elementType = (type: string): string | null => {
+  const clean = unqualified(type);
+  const firstDimension = clean.indexOf('[');
+  
+  if (firstDimension !== -1) {
+    const close = clean.indexOf(']', firstDimension);
+    return clean.slice(0, firstDimension) + clean.slice(close + 1);
+  }
+  if (clean.endsWith('*')) {
+    return clean.slice(0, -1);
+  }
+  return null;
+};
+
+export const pointerTo = (type: string): string => {
+  const clean = unqualified(type);
+  // A pointer to an array element is the closest notation we have for a pointer to an array
+  return isArrayType(clean) ? `${elementType(clean)}*` : `${clean}*`;
+};
+
+// Array parameters are adjusted to pointers, so `int[]`, `int[10]` and `int*` are the same parameter type
+export const adjustParameterType = (type: string): string =>
+  isArrayType(type) ? pointerTo(type) : unqualified(type);
+
+// Replace a typedef name in the base of a type by what it stands for, repeatedly
+export const resolveTypedefs = (type: string, typedefs: Map<string, string>): string => {
+  let resolved = unqualified(type);
+  
+  for (let depth = 0; depth < 32; depth++) {
+    const base = baseOf(resolved);
+    const target = typedefs.get(base);
+    if (target === undefined) break;
+    resolved = unqualified(target) + resolved.slice(base.length);
+  }
+  
+  return resolved;
+};
+
+// `struct point` and `union value` name record types; returns null for anything else
+export const recordKey = (type: string): string | null => {
+  const clean = unqualified(type);
+  return /^(struct|union) [^*[]+$/.test(clean) ? clean : null;
+};
+
+// Arithmetic types
+// Sizes follow the usual 64-bit platforms: char 1, short 2, int 4, long and long long 8 bytes.
+
+const ARITHMETIC_WORDS = new Set(['_Bool', 'char', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned']);
+
+// Integer conversion rank and size in bytes of each canonical integer type
+const INTEGER_TYPES: Record<string, { rank: number, size: number }> = {
+  '_Bool': { rank: 0, size: 1 },
+  'char': { rank: 1, size: 1 },
+  'signed char': { rank: 1, size: 1 },
+  'unsigned char': { rank: 1, size: 1 },
+  'short': { rank: 2, size: 2 },
+  'unsigned short': { rank: 2, size: 2 },
+  'int': { rank: 3, size: 4 },
+  'unsigned int': { rank: 3, size: 4 },
+  'long': { rank: 4, size: 8 },
+  'unsigned long': { rank: 4, size: 8 },
+  'long long': { rank: 5, size: 8 },
+  'unsigned long long': { rank: 5, size: 8 }
+};
+
+const FLOATING_TYPES = ['float', 'double', 'long double'];
+
+// The canonical spelling of an arithmetic type, so that `unsigned`, `int unsigned` and
+// `unsigned int` are all `unsigned int`. Enums are ints. Null for any other type.
+export const arithmeticType = (type: string): string | null => {
+  const clean = unqualified(type);
+  if (/^enum [^*[]+$/.test(clean)) return 'int';
+  
+  const words = clean.split(' ');
+  if (words.some(word => !ARITHMETIC_WORDS.has(word))) return null;
+  
+  const longs = words.filter(word => word === 'long').length;
+  const sign = words.includes('unsigned') ? 'unsigned ' : '';
+  if (words.includes('_Bool')) return '_Bool';
+  if (words.includes('float')) return 'float';
+  if (words.includes('double')) return longs > 0 ? 'long double' : 'double';
+  if (words.includes('char')) return words.includes('signed') ? 'signed char' : `${sign}char`;
+  if (words.includes('short')) return `${sign}short`;
+  if (longs >= 2) return `${sign}long long`;
+  if (longs === 1) return `${sign}long`;
+  return `${sign}int`;
+};
+
+export const isIntegerType = (type: string): boolean => {
+  const canonical = arithmeticType(type);
+  return canonical !== null && canonical in INTEGER_TYPES;
+};
+
+export const isFloatingType = (type: string): boolean => FLOATING_TYPES.includes(arithmeticType(type) ?? '');
+
+export const isArithmeticType = (type: string): boolean => arithmeticType(type) !== null;
+
+// Size in bytes of an arithmetic type
+export const arithmeticSize = (type: string): number => {
+  const canonical = arithmeticType(type) ?? 'int';
+  if (canonical in INTEGER_TYPES) return INTEGER_TYPES[canonical].size;
+  return canonical === 'float' ? 4 : canonical === 'double' ? 8 : 16;
+};
+
+// Smallest and largest value of an integer type; plain char is signed
+export const integerRange = (type: string): [number, number] => {
+  const canonical = arithmeticType(type) ?? 'int';
+  if (canonical === '_Bool') return [0, 1];
+  const bits = INTEGER_TYPES[canonical].size * 8;
+  return canonical.startsWith('unsigned') ? [0, 2 ** bits - 1] : [-(2 ** (bits - 1)), 2 ** (bits - 1) - 1];
+};
+
+// Integer promotion: integer types of lower rank than int become int
+export const promote = (type: string): string => {
+  const canonical = arithmeticType(type) ?? type;
+  return canonical in INTEGER_TYPES && INTEGER_TYPES[canonical].rank < INTEGER_TYPES.int.rank ? 'int' : canonical;
+};
+
+// The usual arithmetic conversions: the common type both operands of a binary operator are converted to
+export const commonArithmeticType = (left: string, right: string): string => {
+  const a = promote(left);
+  const b = promote(right);
+  if (isFloatingType(a) || isFloatingType(b)) {
+    return FLOATING_TYPES[Math.max(FLOATING_TYPES.indexOf(a), FLOATING_TYPES.indexOf(b))];
+  }
+  if (a === b) return a;
+  
+  const isUnsigned = (type: string) => type.startsWith('unsigned');
+  if (isUnsigned(a) === isUnsigned(b)) {
+    return INTEGER_TYPES[a].rank >= INTEGER_TYPES[b].rank ? a : b;
+  }
+  
+  // Mixed signedness: the unsigned type wins unless the signed one is wider and holds all its values
+  const [unsigned, signed] = isUnsigned(a) ? [a, b] : [b, a];
+  if (INTEGER_TYPES[unsigned].rank >= INTEGER_TYPES[signed].rank) return unsigned;
+  if (INTEGER_TYPES[signed].size > INTEGER_TYPES[unsigned].size) return signed;
+  return `unsigned ${signed}`;
+};
@@ -0,0 +1,131 @@
+import { BuiltInGrammar } from '../types/compiler';
+
+export const C_GRAMMAR = 'C';
+
+// Grammars available in the workbench, the C subset first
+export const BUILT_IN_GRAMMARS: BuiltInGrammar[] = [
+  {
+    name: C_GRAMMAR,
+    description: 'The supported C subset, parsed by the hand-written recursive-descent parser with error recovery and semantic analysis.',
+    source: null,
+    example: 'int main() {\n  int x = 10;\n  if (x > 5) {\n    printf("x is greater than 5\\n");\n  }\n  return 0;\n}'
+  },
+  {
+    name: 'Expressions (EBNF)',
+    description: 'Arithmetic with precedence, written with EBNF repetition so that it is LL(1).',
+    source: [
+      '// Repetitions { } become right-recursive rules, so there is no left recursion',
+      "expr   ::= term { ('+' | '-') term }",
+      "term   ::= factor { ('*' | '/' | '%') factor }",
+      "factor ::= NUMBER | IDENTIFIER | '(' expr ')' | '-' factor"
+    ].join('\n'),
+    example: '(a + 2) * b - 4 / -c'
+  },
+  {
+    name: 'Expressions (left-recursive)',
+    description: 'The textbook BNF for arithmetic. Left recursion makes it unusable for LL(1) parsing.',
+    source: [
+      "expr   ::= expr '+' term | expr '-' term | term",
+      "term   ::= term '*' factor | term '/' factor | factor",
+      "factor ::= NUMBER | IDENTIFIER | '(' expr ')'"
+    ].join('\n'),
+    example: 'a + 2 * b'
+  },
+  {
+    name: 'Statements',
+    description: 'A small statement language. The optional else is the classic dangling-else conflict, resolved by matching the nearest if.',
+    source: [
+      'program    ::= statement*',
+      "statement  ::= 'if' '(' expr ')' statement [ 'else' statement ]",
+      "             | 'while' '(' expr ')' statement",
+      "             | '{' statement* '}'",
+      "             | 'return' [ expr ] ';'",
+      "             | IDENTIFIER '=' expr ';'",
+      "expr       ::= operand { ('<' | '>' | '==' | '+' | '-') operand }",
+      "operand    ::= NUMBER | IDENTIFIER | '(' expr ')'"
+    ].join('\n'),
+    example: 'x = 1;\nwhile (x < 10) {\n  if (x == 5) y = x; else y = 0;\n  x = x + 1;\n}\nreturn y;'
+  },
+  {
+    name: 'Balanced parentheses',
+    description: 'The smallest grammar with a nullable rule: FOLLOW sets decide where ε applies.',
+    source: "s ::= '(' s ')' s | ε",
+    example: '(()(()))()'
+  }
+];
+
+// BNF for the supported C subset, used to build the LR automata for C code. It is written in the
+// left-recursive style of the C standard, which suits bottom-up parsing. Typedef names come from
+// the parser as TYPE_NAME tokens, and the dangling else is the expected shift-reduce conflict.
+export const C_SUBSET_BNF = [
+  'translation_unit ::= external_declaration | translation_unit external_declaration',
+  'external_declaration ::= function_definition | declaration',
+  'function_definition ::= declaration_specifiers declarator compound_statement',
+  "declaration ::= declaration_specifiers ';' | declaration_specifiers init_declarator_list ';'",
+  'declaration_specifiers ::= specifier | specifier declaration_specifiers',
+  "specifier ::= 'void' | 'char' | 'short' | 'int' | 'long' | 'float' | 'double' | 'signed' | 'unsigned'",
+  "  | 'const' | 'volatile' | 'static' | 'extern' | 'typedef' | 'register' | 'auto' | 'inline'",
+  '  | struct_or_union_specifier | enum_specifier | TYPE_NAME',
+  "struct_or_union_specifier ::= struct_or_union IDENTIFIER '{' struct_declaration_list '}'",
+  "  | struct_or_union '{' struct_declaration_list '}' | struct_or_union IDENTIFIER",
+  "struct_or_union ::= 'struct' | 'union'",
+  'struct_declaration_list ::= struct_declaration | struct_declaration_list struct_declaration',
+  "struct_declaration ::= declaration_specifiers declarator_list ';'",
+  "declarator_list ::= declarator | declarator_list ',' declarator",
+  "enum_specifier ::= 'enum' IDENTIFIER '{' enumerator_list '}' | 'enum' '{' enumerator_list '}' | 'enum' IDENTIFIER",
+  "enumerator_list ::= enumerator | enumerator_list ',' enumerator",
+  "enumerator ::= IDENTIFIER | IDENTIFIER '=' conditional_expression",
+  "init_declarator_list ::= init_declarator | init_declarator_list ',' init_declarator",
+  "init_declarator ::= declarator | declarator '=' initializer",
+  "initializer ::= assignment_expression | '{' initializer_list '}' | '{' initializer_list ',' '}'",
+  "initializer_list ::= initializer | initializer_list ',' initializer",
+  'declarator ::= pointer direct_declarator | direct_declarator',
+  "pointer ::= '*' | '*' pointer | '*' 'const' | '*' 'const' pointer",
+  "direct_declarator ::= IDENTIFIER | '(' declarator ')'",
+  "  | direct_declarator '[' ']' | direct_declarator '[' conditional_expression ']'",
+  "  | direct_declarator '(' ')' | direct_declarator '(' parameter_list ')'",
+  "parameter_list ::= parameter | parameter_list ',' parameter | parameter_list ',' '...'",
+  'parameter ::= declaration_specifiers declarator | declaration_specifiers pointer | declaration_specifiers',
+  "compound_statement ::= '{' '}' | '{' block_item_list '}'",
+  'block_item_list ::= block_item | block_item_list block_item',
+  'block_item ::= declaration | statement',
+  'statement ::= compound_statement | expression_statement | selection_statement',
+  '  | iteration_statement | jump_statement | labeled_statement',
+  "labeled_statement ::= IDENTIFIER ':' statement | 'case' conditional_expression ':' statement | 'default' ':' statement",
+  "expression_statement ::= ';' | expression ';'",
+  "selection_statement ::= 'if' '(' expression ')' statement",
+  "  | 'if' '(' expression ')' statement 'else' statement",
+  "  | 'switch' '(' expression ')' statement",
+  "iteration_statement ::= 'while' '(' expression ')' statement",
+  "  | 'do' statement 'while' '(' expression ')' ';'",
+  "  | 'for' '(' expression_statement expression_statement ')' statement",
+  "  | 'for' '(' expression_statement expression_statement expression ')' statement",
+  "  | 'for' '(' declaration expression_statement ')' statement",
+  "  | 'for' '(' declaration expression_statement expression ')' statement",
+  "jump_statement ::= 'goto' IDENTIFIER ';' | 'continue' ';' | 'break' ';' | 'return' ';' | 'return' expression ';'",
+  "expression ::= assignment_expression | expression ',' assignment_expression",
+  'assignment_expression ::= conditional_expression | unary_expression assignment_operator assignment_expression',
+  "assignment_operator ::= '=' | '*=' | '/=' | '%=' | '+=' | '-=' | '<<=' | '>>=' | '&=' | '^=' | '|='",
+  "conditional_expression ::= logical_or_expression | logical_or_expression '?' expression ':' conditional_expression",
+  "logical_or_expression ::= logical_and_expression | logical_or_expression '||' logical_and_expression",
+  "logical_and_expression ::= inclusive_or_expression | logical_and_expression '&&' inclusive_or_expression",
+  "inclusive_or_expression ::= exclusive_or_expression | inclusive_or_expression '|' exclusive_or_expression",
+  "exclusive_or_expression ::= and_expression | exclusive_or_expression '^' and_expression",
+  "and_expression ::= equality_expression | and_expression '&' equality_expression",
+  "equality_expression ::= relational_expression | equality_expression ('==' | '!=') relational_expression",
+  "relational_expression ::= shift_expression | relational_expression ('<' | '>' | '<=' | '>=') shift_expression",
+  "shift_expression ::= additive_expression | shift_expression ('<<' | '>>') additive_expression",
+  "additive_expression ::= multiplicative_expression | additive_expression ('+' | '-') multiplicative_expression",
+  "multiplicative_expression ::= cast_expression | multiplicative_expression ('*' | '/' | '%') cast_expression",
+  "cast_expression ::= unary_expression | '(' type_name ')' cast_expression",
+  "unary_expression ::= postfix_expression | '++' unary_expression | '--' unary_expression",
+  "  | unary_operator cast_expression | 'sizeof' unary_expression | 'sizeof' '(' type_name ')'",
+  "unary_operator ::= '&' | '*' | '+' | '-' | '~' | '!'",
+  "postfix_expression ::= primary_expression | postfix_expression '[' expression ']'",
+  "  | postfix_expression '(' ')' | postfix_expression '(' argument_list ')'",
+  "  | postfix_expression '.' IDENTIFIER | postfix_expression '->' IDENTIFIER",
+  "  | postfix_expression '++' | postfix_expression '--'",
+  "argument_list ::= assignment_expression | argument_list ',' assignment_expression",
+  "primary_expression ::= IDENTIFIER | NUMBER | STRING | CHAR | '(' expression ')'",
+  'type_name ::= declaration_specifiers | declaration_specifiers pointer'
+].join('\n');
@@ -0,0 +1,32 @@
+// C89/C99 keyword table shared by the lexer, the parser and the token view
+
+// Keywords that name or build a type
+export const TYPE_SPECIFIERS = new Set([
+  'void', 'char', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned',
+  '_Bool', '_Complex', '_Imaginary', 'struct', 'union', 'enum'
+]);
+
+export const TYPE_QUALIFIERS = new Set(['const', 'volatile', 'restrict']);
+
+export const STORAGE_CLASSES = new Set(['auto', 'register', 'static', 'extern', 'typedef']);
+
+export const FUNCTION_SPECIFIERS = new Set(['inline']);
+
+export const STATEMENT_KEYWORDS = new Set([
+  'if', 'else', 'switch', 'case', 'default', 'while', 'do', 'for',
+  'goto', 'continue', 'break', 'return'
+]);
+
+export const C_KEYWORDS = new Set([
+  ...TYPE_SPECIFIERS,
+  ...TYPE_QUALIFIERS,
+  ...STORAGE_CLASSES,
+  ...FUNCTION_SPECIFIERS,
+  ...STATEMENT_KEYWORDS,
+  'sizeof'
+]);
+
+// True for keywords that may appear in the declaration specifiers before a declarator,
+// e.g. every word of `static const unsigned long`
+export const isDeclarationSpecifier = (word: string): boolean =>
+  TYPE_SPECIFIERS.has(word) || TYPE_QUALIFIERS.has(word) || STORAGE_CLASSES.has(word) || FUNCTION_SPECIFIERS.has(word);
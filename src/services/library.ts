@@ -0,0 +1,253 @@
+// Declarations from the C standard headers. Preprocessor lines are not processed, so the functions
+// and macros of the library are known by name whether or not their header is included.
+
+export interface LibraryFunction {
+  header: string;
+  returnType: string;
+  parameters: string[];
+  // Takes more arguments after the listed ones, like printf
+  variadic: boolean;
+}
+
+// Helper to read prototypes written as `type name(type, type, ...)`
+const declare = (header: string, prototypes: string[]): [string, LibraryFunction][] =>
+  prototypes.map(prototype => {
+    const [, returnType, name, list] = /^(.+?)\s*(\w+)\((.*)\)$/.exec(prototype)!;
+    const parameters = list === '' ? [] : list.split(', ');
+    const variadic = parameters[parameters.length - 1] === '...';
+    return [name, {
+      header,
+      returnType: returnType.trim(),
+      parameters: variadic ? parameters.slice(0, -1) : parameters,
+      variadic
+    }];
+  });
+
+// size_t and time_t are written as the types they stand for here; FILE is one of LIBRARY_TYPEDEFS
+export const LIBRARY_FUNCTIONS = new Map<string, LibraryFunction>([
+  ...declare('stdio.h', [
+    'int printf(const char*, ...)',
+    'int scanf(const char*, ...)',
+    'int fprintf(FILE*, const char*, ...)',
+    'int fscanf(FILE*, const char*, ...)',
+    'int sprintf(char*, const char*, ...)',
+    'int snprintf(char*, unsigned long, const char*, ...)',
+    'int sscanf(const char*, const char*, ...)',
+    'int puts(const char*)',
+    'int fputs(const char*, FILE*)',
+    'char* fgets(char*, int, FILE*)',
+    'int putchar(int)',
+    'int getchar()',
+    'int putc(int, FILE*)',
+    'int fputc(int, FILE*)',
+    'int getc(FILE*)',
+    'int fgetc(FILE*)',
+    'FILE* fopen(const char*, const char*)',
+    'int fclose(FILE*)',
+    'int fflush(FILE*)',
+    'unsigned long fread(void*, unsigned long, unsigned long, FILE*)',
+    'unsigned long fwrite(const void*, unsigned long, unsigned long, FILE*)',
+    'void perror(const char*)'
+  ]),
+  ...declare('stdlib.h', [
+    'void* malloc(unsigned long)',
+    'void* calloc(unsigned long, unsigned long)',
+    'void* realloc(void*, unsigned long)',
+    'void free(void*)',
+    'void exit(int)',
+    'void abort()',
+    'int abs(int)',
+    'long labs(long)',
+    'int atoi(const char*)',
+    'long atol(const char*)',
+    'double atof(const char*)',
+    'long strtol(const char*, char**, int)',
+    'double strtod(const char*, char**)',
+    'int rand()',
+    'void srand(unsigned int)',
+    'int system(const char*)'
+  ]),
+  ...declare('string.h', [
+    'unsigned long strlen(const char*)',
+    'char* strcpy(char*, const char*)',
+    'char* strncpy(char*, const char*, unsigned long)',
+    'char* strcat(char*, const char*)',
+    'char* strncat(char*, const char*, unsigned long)',
+    'int strcmp(const char*, const char*)',
+    'int strncmp(const char*, const char*, unsigned long)',
+    'char* strchr(const char*, int)',
+    'char* strrchr(const char*, int)',
+    'char* strstr(const char*, const char*)',
+    'char* strdup(const char*)',
+    'void* memset(void*, int, unsigned long)',
+    'void* memcpy(void*, const void*, unsigned long)',
+    'void* memmove(void*, const void*, unsigned long)',
+    'int memcmp(const void*, const void*, unsigned long)'
+  ]),
+  ...declare('math.h', [
+    'double sqrt(double)',
+    'double pow(double, double)',
+    'double fabs(double)',
+    'double floor(double)',
+    'double ceil(double)',
+    'double round(double)',
+    'double fmod(double, double)',
+    'double exp(double)',
+    'double log(double)',
+    'double log10(double)',
+    'double sin(double)',
+    'double cos(double)',
+    'double tan(double)',
+    'double asin(double)',
+    'double acos(double)',
+    'double atan(double)',
+    'double atan2(double, double)'
+  ]),
+  ...declare('ctype.h', [
+    'int isalpha(int)',
+    'int isdigit(int)',
+    'int isalnum(int)',
+    'int isspace(int)',
+    'int isupper(int)',
+    'int islower(int)',
+    'int ispunct(int)',
+    'int isxdigit(int)',
+    'int toupper(int)',
+    'int tolower(int)'
+  ]),
+  ...declare('time.h', [
+    'long time(long*)',
+    'long clock()'
+  ]),
+  ...declare('assert.h', [
+    'void assert(int)'
+  ])
+]);
+
+// Type names the standard headers define, with the types they stand for. FILE is opaque: its
+// members are never declared, so only pointers to it can be used.
+export const LIBRARY_TYPEDEFS = new Map<string, string>([
+  ['FILE', 'struct _IO_FILE'],
+  ['size_t', 'unsigned long'],
+  ['ptrdiff_t', 'long'],
+  ['time_t', 'long'],
+  ['bool', '_Bool']
+]);
+
+// Functions that never return to their caller
+export const NO_RETURN_FUNCTIONS = ['exit', 'abort'];
+
+// Object-like macros and variables of the standard headers, with their types
+export const LIBRARY_CONSTANTS = new Map<string, string>([
+  ['NULL', 'void*'],
+  ['EOF', 'int'],
+  ['stdin', 'FILE*'],
+  ['stdout', 'FILE*'],
+  ['stderr', 'FILE*'],
+  ['EXIT_SUCCESS', 'int'],
+  ['EXIT_FAILURE', 'int'],
+  ['RAND_MAX', 'int'],
+  ['CHAR_BIT', 'int'],
+  ['CHAR_MIN', 'int'],
+  ['CHAR_MAX', 'int'],
+  ['SHRT_MIN', 'int'],
+  ['SHRT_MAX', 'int'],
+  ['INT_MIN', 'int'],
+  ['INT_MAX', 'int'],
+  ['UINT_MAX', 'unsigned int'],
+  ['LONG_MIN', 'long'],
+  ['LONG_MAX', 'long'],
+  ['CLOCKS_PER_SEC', 'long'],
+  ['M_PI', 'double'],
+  ['errno', 'int'],
+  ['true', 'int'],
+  ['false', 'int']
+]);
+
+// Functions that take a printf or scanf format string, and the index of that parameter
+export const FORMAT_FUNCTIONS = new Map<string, { style: 'printf' | 'scanf', index: number }>([
+  ['printf', { style: 'printf', index: 0 }],
+  ['fprintf', { style: 'printf', index: 1 }],
+  ['sprintf', { style: 'printf', index: 1 }],
+  ['snprintf', { style: 'printf', index: 2 }],
+  ['scanf', { style: 'scanf', index: 0 }],
+  ['fscanf', { style: 'scanf', index: 1 }],
+  ['sscanf', { style: 'scanf', index: 1 }]
+]);
+
+// One argument a format string asks for, such as the int of `%d` or of a `*` field width
+export interface FormatArgument {
+  // The conversion as written, e.g. '%5.2lf'
+  conversion: string;
+  // Type the argument must have; scanf conversions take pointers
+  type: string;
+}
+
+export interface FormatAnalysis {
+  arguments: FormatArgument[];
+  // Conversions that are not valid, as messages
+  errors: string[];
+}
+
+// %[flags][width][.precision][length]conversion; a scanf scanset is written %[...]
+const CONVERSION_PATTERN = /%([-+ #0]*)(\*|\d+)?(?:\.(\*|\d*))?(hh|h|ll|l|L|z|j|t)?(\[\^?\]?[^\]]*\]|.)?/g;
+
+// Integer type of each length modifier; hh and h are read as int by printf after promotion
+const INTEGER_LENGTHS: Record<string, string> = {
+  '': 'int',
+  hh: 'char',
+  h: 'short',
+  l: 'long',
+  ll: 'long long',
+  z: 'unsigned long',
+  j: 'long',
+  t: 'long'
+};
+
+// Helper to list the arguments a format string consumes, in order
+export const analyzeFormat = (format: string, style: 'printf' | 'scanf'): FormatAnalysis => {
+  const result: FormatAnalysis = { arguments: [], errors: [] };
+  
+  for (const [text, , width, precision, length = '', conversion] of format.matchAll(CONVERSION_PATTERN)) {
+    if (conversion === undefined) {
+      result.errors.push(`Incomplete format specifier '${text}' at the end of the format string`);
+      continue;
+    }
+    if (conversion === '%') continue;
+    
+    // In scanf a '*' suppresses the assignment; in printf it reads the width or precision from an int
+    const suppressed = style === 'scanf' && width === '*';
+    if (style === 'printf') {
+      if (width === '*') result.arguments.push({ conversion: text, type: 'int' });
+      if (precision === '*') result.arguments.push({ conversion: text, type: 'int' });
+    }
+    
+    const integer = INTEGER_LENGTHS[length] ?? 'int';
+    let type: string;
+    if ('di'.includes(conversion)) {
+      type = integer;
+    } else if ('ouxX'.includes(conversion)) {
+      type = integer.startsWith('unsigned') ? integer : `unsigned ${integer}`;
+    } else if ('fFeEgGaA'.includes(conversion)) {
+      type = length === 'L' ? 'long double' : style === 'scanf' && length !== 'l' ? 'float' : 'double';
+    } else if (conversion === 'c') {
+      type = style === 'printf' ? 'int' : 'char';
+    } else if (conversion === 's' || conversion.startsWith('[')) {
+      type = style === 'printf' ? 'char*' : 'char';
+    } else if (conversion === 'p') {
+      type = 'void*';
+    } else if (conversion === 'n') {
+      type = `${integer}*`;
+    } else {
+      result.errors.push(`Invalid conversion specifier '${conversion}' in '${text}'`);
+      continue;
+    }
+    
+    if (suppressed) continue;
+    // scanf stores through a pointer to the type printf would print; %n already takes one
+    const stored = style === 'scanf' && conversion !== 'n' ? `${type}*` : type;
+    result.arguments.push({ conversion: text, type: stored });
+  }
+  
+  return result;
+};
@@ -4,6 +4,24 @@ export interface Token {
   value: string;
   line: number;
   column: number;
+  // Absolute character offsets into the source, end exclusive
+  start: number;
+  end: number;
+  // Decoded value of STRING, CHAR (character code) and NUMBER literals
+  literal?: string | number;
+}
+
+// Position in the source: 1-based line and column, 0-based character offset
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+// Range of source text, end exclusive
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
 }
 
 // Node in the parse tree
@@ -11,32 +29,191 @@ export interface ParseTreeNode {
   id: string;
   type: string;
   value?: string;
+  // Source text the node was parsed from
+  span: SourceSpan;
+  // Id of the matching node in the other tree: concrete parse tree <-> abstract syntax tree
+  counterpart?: string;
+  // Decoded value of a literal leaf, copied from its token
+  literal?: string | number;
+  // C type of an expression, filled in by the type checker
+  ctype?: string;
   children: ParseTreeNode[];
 }
 
+// One step of the C parser, recorded in order so that a parse can be replayed
+export interface ParseEvent {
+  kind: 'enter' | 'consume' | 'node' | 'recover';
+  // Index in CompilationResult.tokens of the token consumed or looked at, or -1 at the end of input
+  token: number;
+  // Node the step added: the rule node or terminal of the concrete tree for enter and consume,
+  // the abstract syntax tree node for node, and the concrete tree's ERROR node for recover
+  nodeId: string;
+  // Rule entered, token text consumed, type of the node created or message of the error recovered from
+  detail: string;
+}
+
 // Variable information
 export interface Variable {
   name: string;
   type: string;
   line: number;
+  column: number;
+  // Read after its declaration
   used: boolean;
+  // Written after its declaration: assigned, incremented or passed by address
+  assigned: boolean;
+  isParameter?: boolean;
+}
+
+// What a name was declared as; library names come from the standard headers
+export type SymbolKind = 'variable' | 'parameter' | 'function' | 'enum constant' | 'macro' | 'library';
+
+// Declaration that identifiers in the program resolve to
+export interface DeclaredSymbol {
+  name: string;
+  kind: SymbolKind;
+  // Type of the value, or the return type of a function
+  type: string;
+  // Node that declares the name; absent for macros and the standard library
+  declaration?: ParseTreeNode;
+  line: number;
+  column: number;
+  // Usage of a variable or parameter, as listed in its scope
+  variable?: Variable;
+}
+
+// Member of a struct or union, or a constant of an enum
+export interface TypeMember {
+  name: string;
+  type: string;
+  // Value of an enum constant
+  value?: number;
+}
+
+// User-defined type declared in a scope
+export interface TypeDefinition {
+  kind: 'struct' | 'union' | 'enum' | 'typedef';
+  name: string;
+  members: TypeMember[];
+  // The type a typedef name stands for
+  aliasOf?: string;
 }
 
 // Scope information
 export interface VariableScope {
   name: string;
+  // First and last source line the scope covers
   start: number;
   end: number;
   variables: Variable[];
+  types: TypeDefinition[];
   children: VariableScope[];
 }
 
-// Node in the control flow graph
-export interface ControlFlowNode {
+// How control passes along an edge of the control flow graph: a branch taken when a condition
+// is true or false, a switch dispatching to a case, plain fallthrough to the next block, a jump
+// back to the head of a loop, or a break or return leaving a loop, switch or function
+export type ControlFlowEdgeKind = 'true' | 'false' | 'case' | 'fallthrough' | 'back' | 'exit';
+
+// Statement or condition held by a basic block
+export interface ControlFlowStatement {
+  node: ParseTreeNode;
+  // Source text shown for it
+  text: string;
+}
+
+// Straight-line code: control enters at the first statement and leaves after the last, or after
+// testing the condition when the block ends in a branch
+export interface BasicBlock {
   id: string;
-  type: string;
-  condition?: string;
-  children: ControlFlowNode[];
+  kind: 'entry' | 'exit' | 'block';
+  statements: ControlFlowStatement[];
+  condition?: ControlFlowStatement;
+  // Construct the block starts, such as 'while', 'for update' or 'case 2'
+  label?: string;
+  // Whether any path from the entry leads to the block
+  reachable: boolean;
+}
+
+export interface ControlFlowEdge {
+  from: string;
+  to: string;
+  kind: ControlFlowEdgeKind;
+  // Case value, 'break', 'continue' or 'goto' target the edge stands for
+  label?: string;
+}
+
+// Loop found from a back edge, an edge to a block that dominates its source. Its body is the
+// header and every block that reaches a back edge without passing through the header.
+export interface NaturalLoop {
+  header: string;
+  // Sources of the back edges to the header
+  latches: string[];
+  blocks: string[];
+  // 1 for an outermost loop
+  depth: number;
+  // Header of the innermost loop around this one
+  parent?: string;
+}
+
+// Dominance in a control flow graph. A block dominates another if every path from the entry to
+// the other passes through it, and post-dominates it if every path from it to the exit does.
+export interface DominanceInfo {
+  // Immediate dominator of each block; null for the entry and blocks the entry does not reach
+  idom: Record<string, string | null>;
+  // Blocks where each block's dominance ends: successors of dominated blocks it does not strictly dominate
+  frontier: Record<string, string[]>;
+  // Immediate post-dominator of each block; null for the exit and blocks that never reach it
+  postIdom: Record<string, string | null>;
+  loops: NaturalLoop[];
+  // Number of loops each block is in
+  loopDepth: Record<string, number>;
+}
+
+// Definition, variable or expression tracked by a dataflow analysis
+export interface DataflowFact {
+  id: string;
+  description: string;
+}
+
+// One visit of a block by the worklist algorithm, with the block's new IN and OUT sets
+export interface DataflowStep {
+  block: string;
+  in: string[];
+  out: string[];
+  // Whether the result passed on changed, so that the blocks it flows into were queued again
+  changed: boolean;
+  // Blocks still queued after the visit
+  worklist: string[];
+}
+
+// Solution of a gen/kill dataflow problem over a control flow graph. Sets hold fact ids, IN at
+// the start of a block and OUT at its end, whichever way the analysis runs.
+export interface DataflowResult {
+  name: 'Reaching definitions' | 'Live variables' | 'Available expressions';
+  direction: 'forward' | 'backward';
+  // How the values flowing into a block combine: facts holding on some path, or on all of them
+  meet: 'union' | 'intersection';
+  facts: DataflowFact[];
+  gen: Record<string, string[]>;
+  kill: Record<string, string[]>;
+  // IN and OUT of every block before the first step
+  initial: { in: Record<string, string[]>, out: Record<string, string[]> };
+  steps: DataflowStep[];
+  in: Record<string, string[]>;
+  out: Record<string, string[]>;
+}
+
+// Control flow graph of one function
+export interface ControlFlowGraph {
+  functionName: string;
+  entry: string;
+  exit: string;
+  blocks: BasicBlock[];
+  edges: ControlFlowEdge[];
+  dominance: DominanceInfo;
+  // Reaching definitions, live variables and available expressions
+  dataflow: DataflowResult[];
 }
 
 // Complexity information
@@ -63,14 +240,144 @@ export interface CompilerError {
   severity: 'error' | 'warning';
   context?: string;
   suggestions?: string[];
+  // Other places the diagnostic refers to, such as the declaration of the variable involved
+  related?: { message: string, line: number, column: number }[];
+}
+
+// Alternative of a grammar rule. Terminals are written quoted ('if') to match a token's text, or as
+// a token type (IDENTIFIER) to match any token of that type; an empty body derives ε.
+export interface GrammarProduction {
+  id: number;
+  head: string;
+  body: string[];
+  // Line of the grammar text the alternative was written on
+  line: number;
+}
+
+// Context-free grammar read from BNF or EBNF, with EBNF operators rewritten into extra nonterminals
+export interface Grammar {
+  start: string;
+  nonterminals: string[];
+  terminals: string[];
+  productions: GrammarProduction[];
+}
+
+// LL(1) table cell claimed by more than one production
+export interface GrammarConflict {
+  nonterminal: string;
+  terminal: string;
+  productions: number[];
+}
+
+// Everything computed from a user-defined grammar
+export interface GrammarAnalysis {
+  grammar: Grammar;
+  nullable: string[];
+  first: Record<string, string[]>;
+  follow: Record<string, string[]>;
+  // nonterminal -> lookahead terminal -> productions to expand by
+  table: Record<string, Record<string, number[]>>;
+  conflicts: GrammarConflict[];
+  // Each cycle of left recursion as the path of nonterminals, e.g. [expr, expr] or [a, b, a]
+  leftRecursion: string[][];
+  // Problems in the grammar text, positioned in the grammar rather than in the source
+  errors: CompilerError[];
+}
+
+export type LRMethod = 'LR(0)' | 'SLR(1)' | 'LALR(1)';
+
+// Production with a dot marking how much of it has been recognised. Lookaheads are the LALR(1)
+// ones; LR(0) and SLR(1) tables do not use them.
+export interface LRItem {
+  production: number;
+  dot: number;
+  lookaheads: string[];
+}
+
+// State of the LR(0) automaton: its kernel items, the closure of the kernel, and the state reached
+// on each grammar symbol
+export interface LRState {
+  id: number;
+  kernel: LRItem[];
+  items: LRItem[];
+  transitions: Record<string, number>;
+}
+
+export type LRAction =
+  | { kind: 'shift', state: number }
+  | { kind: 'reduce', production: number }
+  | { kind: 'accept' };
+
+// ACTION table cell with more than one action
+export interface LRConflict {
+  state: number;
+  terminal: string;
+  kind: 'shift-reduce' | 'reduce-reduce';
+  actions: LRAction[];
+}
+
+// ACTION and GOTO tables, indexed by state
+export interface LRTable {
+  action: Record<string, LRAction[]>[];
+  goto: Record<string, number>[];
+  conflicts: LRConflict[];
+}
+
+// Parser configuration before each move of a shift-reduce parse
+export interface LRTraceStep {
+  stack: number[];
+  symbols: string[];
+  // The next few tokens of the input
+  input: string[];
+  action: string;
+  // Trees built so far, one per symbol on the stack
+  forest: ParseTreeNode[];
+}
+
+// Shift-reduce parse of the source with one of the tables
+export interface LRParse {
+  trace: LRTraceStep[];
+  // Set when the parse took more steps than the trace keeps
+  truncated: boolean;
+  parseTree: ParseTreeNode | null;
+  errors: CompilerError[];
+}
+
+// Bottom-up view of a grammar. Productions are the grammar's plus the augmented start production,
+// which comes last.
+export interface LRAnalysis {
+  productions: GrammarProduction[];
+  states: LRState[];
+  tables: Record<LRMethod, LRTable>;
+  parses: Record<LRMethod, LRParse>;
+}
+
+// Grammar offered in the grammar workbench. The C grammar is implemented by the hand-written parser
+// and has no source; the others are BNF text the user can edit.
+export interface BuiltInGrammar {
+  name: string;
+  description: string;
+  source: string | null;
+  // Input the grammar accepts, to try it with
+  example: string;
 }
 
 // Complete compilation result
 export interface CompilationResult {
   tokens: Token[];
+  // Abstract syntax tree
   parseTree: ParseTreeNode | null;
+  // Concrete parse tree: a node for every grammar rule applied and a leaf for every token
+  concreteTree: ParseTreeNode | null;
   scopes: VariableScope[];
-  controlFlow: ControlFlowNode | null;
+  // One graph per function definition, in source order
+  controlFlow: ControlFlowGraph[];
   complexity: ComplexityInfo | null;
+  // Analysis of the grammar the source was parsed with, or null for the built-in C parser
+  grammar: GrammarAnalysis | null;
+  // LR automata of the grammar, or of the BNF for the C subset, and the source parsed bottom-up
+  lr: LRAnalysis | null;
+  // What the C parser did, in order; empty when a grammar was used
+  parseLog: ParseEvent[];
   errors: CompilerError[];
 }
\ No newline at end of file